@@ -0,0 +1,99 @@
+/**
+ * Canvas size section component
+ * Responsive canvas or a fixed output resolution (preset or custom)
+ */
+
+import type { CanvasSizeMode, CanvasSizeSettings, OutputPreset } from '@/types';
+import { CANVAS_SIZE_MODES, OUTPUT_PRESETS } from '@/utils/constants';
+import { clampOutputSize } from '@/utils/canvasSize';
+
+interface CanvasSizeSectionProps {
+  /** Size settings */
+  settings: CanvasSizeSettings;
+  /** Callback with the changed settings */
+  onSettingsChange: (updates: Partial<CanvasSizeSettings>) => void;
+  /** Size frames are currently rendered and exported at */
+  canvasSize: { width: number; height: number };
+  /** Display size relative to the rendered size */
+  previewScale: number;
+}
+
+/**
+ * Output size settings shared by the display and all exports
+ */
+export function CanvasSizeSection({
+  settings,
+  onSettingsChange,
+  canvasSize,
+  previewScale
+}: CanvasSizeSectionProps) {
+  const selectPreset = (preset: OutputPreset) => {
+    const size = OUTPUT_PRESETS.find(option => option.value === preset);
+    onSettingsChange(size ? { preset, width: size.width, height: size.height } : { preset });
+  };
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-4 space-y-2">
+      <h3 className="text-lg font-semibold text-white">Canvas Size</h3>
+
+      <select
+        value={settings.mode}
+        onChange={(e) => onSettingsChange({ mode: e.target.value as CanvasSizeMode })}
+        className="w-full bg-gray-800 text-white rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {CANVAS_SIZE_MODES.map(mode => (
+          <option key={mode.value} value={mode.value}>
+            {mode.label}
+          </option>
+        ))}
+      </select>
+
+      {settings.mode === 'fixed' && (
+        <>
+          <select
+            value={settings.preset}
+            onChange={(e) => selectPreset(e.target.value as OutputPreset)}
+            className="w-full bg-gray-800 text-white rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {OUTPUT_PRESETS.map(preset => (
+              <option key={preset.value} value={preset.value}>
+                {preset.label}
+              </option>
+            ))}
+            <option value="custom">Custom</option>
+          </select>
+
+          {settings.preset === 'custom' && (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                <span className="text-xs text-gray-400">Width</span>
+                <input
+                  type="number"
+                  value={settings.width}
+                  onChange={(e) => onSettingsChange({ width: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  onBlur={() => onSettingsChange({ width: clampOutputSize(settings.width) })}
+                  className="w-full bg-gray-800 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs text-gray-400">Height</span>
+                <input
+                  type="number"
+                  value={settings.height}
+                  onChange={(e) => onSettingsChange({ height: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  onBlur={() => onSettingsChange({ height: clampOutputSize(settings.height) })}
+                  className="w-full bg-gray-800 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            </div>
+          )}
+        </>
+      )}
+
+      <p className="text-xs text-gray-400">
+        Rendering at {canvasSize.width} × {canvasSize.height} px
+        {settings.mode === 'fixed' && ` (preview at ${Math.round(previewScale * 100)}%)`}
+      </p>
+    </div>
+  );
+}
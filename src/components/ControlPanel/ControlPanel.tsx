@@ -3,14 +3,38 @@
  * Composes all control sections into a sidebar
  */
 
-import type { Layer, LayerConfig } from '@/types';
+import type {
+  Layer,
+  LayerConfig,
+  BackendComparison,
+  BloomSettings,
+  CanvasSizeSettings,
+  PostEffectSettings,
+  GifExportOptions,
+  RenderBackend,
+  TextGuideOptions,
+  VideoExportOptions
+} from '@/types';
+import type { VideoFormat } from '@/utils/constants';
+import { resolvePatternParams } from '@/utils/patternRegistry';
+import { hasShapeGuide, type ProceduralGuideSettings } from '@/utils/proceduralGuide';
 import { LayersSection } from './LayersSection';
 import { FrameInfo } from './FrameInfo';
 import { SymbolControls } from './SymbolControls';
 import { PatternControls } from './PatternControls';
+import { GuideSourceSection } from './GuideSourceSection';
+import { ProceduralGuideControls } from './ProceduralGuideControls';
+import { ShapeGuideControls } from './ShapeGuideControls';
+import { ShapeProcessingControls } from './ShapeProcessingControls';
 import { AppearanceControls } from './AppearanceControls';
 import { AnimationControls } from './AnimationControls';
 import { EffectControls } from './EffectControls';
+import { ExportSection } from './ExportSection';
+import { ProjectSection } from './ProjectSection';
+import { RenderSection } from './RenderSection';
+import { CanvasSizeSection } from './CanvasSizeSection';
+import { PostProcessingSection } from './PostProcessingSection';
+import { HistorySection } from './HistorySection';
 
 interface ControlPanelProps {
   /** All layers */
@@ -21,6 +45,10 @@ interface ControlPanelProps {
   activeLayer: Layer;
   /** Expanded layer IDs */
   expandedLayerIds: Set<string>;
+  /** Maximum number of layers */
+  maxLayers: number;
+  /** Callback to change the layer limit */
+  onMaxLayersChange: (maxLayers: number) => void;
   /** Current frame number */
   currentFrame: number;
   /** Whether animation is playing */
@@ -34,6 +62,60 @@ interface ControlPanelProps {
   onToggleExpanded: (id: string) => void;
   /** Active layer config update callback */
   onUpdateActiveLayerConfig: (updates: Partial<LayerConfig>) => void;
+  /** Guide generation state and callbacks */
+  guideError: string | null;
+  onTextGuide: (options: TextGuideOptions) => void;
+  onSvgGuide: (markup: string) => void;
+  onProceduralGuideChange: (updates: Partial<ProceduralGuideSettings>) => void;
+  /** GIF export progress (0-1), null when idle */
+  gifProgress: number | null;
+  /** GIF export callback */
+  onExportGif: (options: GifExportOptions) => void;
+  /** SVG export callback */
+  onExportSvg: () => void;
+  /** Video recording progress (0-1), null when idle */
+  videoProgress: number | null;
+  /** Video formats supported by the browser */
+  videoFormats: VideoFormat[];
+  /** Loop period of the visible patterns in frames (null if aperiodic) */
+  loopPeriod: number | null;
+  /** Video recording callback */
+  onRecordVideo: (options: VideoExportOptions) => void;
+  /** Project seed */
+  seed: number;
+  /** Seed change callbacks */
+  onSeedChange: (seed: number) => void;
+  onNewSeed: () => void;
+  /** Project file state and callbacks */
+  projectError: string | null;
+  onSaveProject: () => void;
+  onOpenProject: (file: File) => void;
+  /** Share link state and callbacks */
+  includeShapesInLink: boolean;
+  onIncludeShapesInLinkChange: (include: boolean) => void;
+  shareError: string | null;
+  onCopyLink: () => Promise<boolean>;
+  /** Canvas size settings, the resulting render size and the preview scale */
+  canvasSizeSettings: CanvasSizeSettings;
+  onCanvasSizeSettingsChange: (updates: Partial<CanvasSizeSettings>) => void;
+  canvasSize: { width: number; height: number };
+  previewScale: number;
+  /** Rendering backend state and callbacks */
+  renderBackend: RenderBackend;
+  onRenderBackendChange: (backend: RenderBackend) => void;
+  backendComparison: BackendComparison[] | null;
+  onCompareBackends: () => void;
+  /** Post-processing settings and callback */
+  bloom: BloomSettings;
+  onBloomChange: (updates: Partial<BloomSettings>) => void;
+  postEffects: PostEffectSettings[];
+  onPostEffectsChange: (postEffects: PostEffectSettings[]) => void;
+  /** Edit history and callbacks */
+  historyLabels: string[];
+  historyIndex: number;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpToHistory: (index: number) => void;
 }
 
 /**
@@ -44,6 +126,8 @@ export function ControlPanel({
   activeLayerId,
   activeLayer,
   expandedLayerIds,
+  maxLayers,
+  onMaxLayersChange,
   currentFrame,
   isAnimating,
   onSetActiveLayer,
@@ -52,19 +136,107 @@ export function ControlPanel({
   onUpdateLayer,
   onReorderLayers,
   onToggleExpanded,
-  onUpdateActiveLayerConfig
+  onUpdateActiveLayerConfig,
+  guideError,
+  onTextGuide,
+  onSvgGuide,
+  onProceduralGuideChange,
+  gifProgress,
+  onExportGif,
+  onExportSvg,
+  videoProgress,
+  videoFormats,
+  loopPeriod,
+  onRecordVideo,
+  seed,
+  onSeedChange,
+  onNewSeed,
+  projectError,
+  onSaveProject,
+  onOpenProject,
+  includeShapesInLink,
+  onIncludeShapesInLinkChange,
+  shareError,
+  onCopyLink,
+  canvasSizeSettings,
+  onCanvasSizeSettingsChange,
+  canvasSize,
+  previewScale,
+  renderBackend,
+  onRenderBackendChange,
+  backendComparison,
+  onCompareBackends,
+  bloom,
+  onBloomChange,
+  postEffects,
+  onPostEffectsChange,
+  historyLabels,
+  historyIndex,
+  onUndo,
+  onRedo,
+  onJumpToHistory
 }: ControlPanelProps) {
   const config = activeLayer.config;
+  const hasShape = hasShapeGuide(activeLayer);
 
   return (
     <div className="w-80 bg-gray-800 p-6 overflow-y-auto space-y-6">
       <h2 className="text-xl font-bold text-white mb-4">Pattern Controls</h2>
 
+      {/* Project Section */}
+      <ProjectSection
+        seed={seed}
+        onSeedChange={onSeedChange}
+        onNewSeed={onNewSeed}
+        projectError={projectError}
+        onSaveProject={onSaveProject}
+        onOpenProject={onOpenProject}
+        includeShapesInLink={includeShapesInLink}
+        onIncludeShapesInLinkChange={onIncludeShapesInLinkChange}
+        shareError={shareError}
+        onCopyLink={onCopyLink}
+      />
+
+      {/* Canvas Size Section */}
+      <CanvasSizeSection
+        settings={canvasSizeSettings}
+        onSettingsChange={onCanvasSizeSettingsChange}
+        canvasSize={canvasSize}
+        previewScale={previewScale}
+      />
+
+      {/* Render Section */}
+      <RenderSection
+        renderBackend={renderBackend}
+        onRenderBackendChange={onRenderBackendChange}
+        comparison={backendComparison}
+        onCompareBackends={onCompareBackends}
+      />
+
+      {/* Post-Processing Section */}
+      <PostProcessingSection
+        bloom={bloom}
+        onBloomChange={onBloomChange}
+        postEffects={postEffects}
+        onPostEffectsChange={onPostEffectsChange}
+      />
+
+      {/* History Section */}
+      <HistorySection
+        labels={historyLabels}
+        currentIndex={historyIndex}
+        onUndo={onUndo}
+        onRedo={onRedo}
+        onJump={onJumpToHistory}
+      />
+
       {/* Layers Section */}
       <LayersSection
         layers={layers}
         activeLayerId={activeLayerId}
         expandedLayerIds={expandedLayerIds}
+        maxLayers={maxLayers}
+        onMaxLayersChange={onMaxLayersChange}
         onSetActiveLayer={onSetActiveLayer}
         onAddLayer={onAddLayer}
         onRemoveLayer={onRemoveLayer}
@@ -92,12 +264,56 @@ export function ControlPanel({
       {/* Pattern Controls */}
       <PatternControls
         pattern={config.pattern}
+        patternParams={resolvePatternParams(config)}
         shapeInfluence={config.shapeInfluence}
-        hasShapeData={activeLayer.shapeData !== null}
+        hasShapeData={hasShape}
         onPatternChange={(pattern) => onUpdateActiveLayerConfig({ pattern })}
+        onPatternParamChange={(key, value) => onUpdateActiveLayerConfig({
+          patternParams: {
+            ...config.patternParams,
+            [config.pattern]: { ...config.patternParams[config.pattern], [key]: value }
+          }
+        })}
         onShapeInfluenceChange={(shapeInfluence) => onUpdateActiveLayerConfig({ shapeInfluence })}
       />
 
+      {/* Guide Source Section */}
+      <GuideSourceSection
+        guideError={guideError}
+        onTextGuide={onTextGuide}
+        onSvgGuide={onSvgGuide}
+      />
+
+      {/* Procedural Guide Controls */}
+      <ProceduralGuideControls
+        settings={config}
+        onChange={onProceduralGuideChange}
+      />
+
+      {/* Shape Guide Controls - only show if a shape guide exists */}
+      {hasShape && (
+        <ShapeGuideControls
+          shapeFit={config.shapeFit}
+          shapeOffsetX={config.shapeOffsetX}
+          shapeOffsetY={config.shapeOffsetY}
+          shapeScale={config.shapeScale}
+          shapeRotation={config.shapeRotation}
+          onShapeFitChange={(shapeFit) => onUpdateActiveLayerConfig({ shapeFit })}
+          onShapeOffsetXChange={(shapeOffsetX) => onUpdateActiveLayerConfig({ shapeOffsetX })}
+          onShapeOffsetYChange={(shapeOffsetY) => onUpdateActiveLayerConfig({ shapeOffsetY })}
+          onShapeScaleChange={(shapeScale) => onUpdateActiveLayerConfig({ shapeScale })}
+          onShapeRotationChange={(shapeRotation) => onUpdateActiveLayerConfig({ shapeRotation })}
+        />
+      )}
+
+      {/* Shape Processing Controls - only show if a shape guide exists */}
+      {hasShape && (
+        <ShapeProcessingControls
+          settings={config}
+          onChange={onUpdateActiveLayerConfig}
+        />
+      )}
+
       {/* Appearance Controls */}
       <AppearanceControls
         density={config.density}
@@ -129,6 +345,18 @@ export function ControlPanel({
         onGlowIntensityChange={(glowIntensity) => onUpdateActiveLayerConfig({ glowIntensity })}
         onGlowRadiusChange={(glowRadius) => onUpdateActiveLayerConfig({ glowRadius })}
       />
+
+      {/* Export Section */}
+      <ExportSection
+        gifProgress={gifProgress}
+        videoProgress={videoProgress}
+        videoFormats={videoFormats}
+        loopPeriod={loopPeriod}
+        animationSpeed={config.animationSpeed}
+        onExportGif={onExportGif}
+        onExportSvg={onExportSvg}
+        onRecordVideo={onRecordVideo}
+      />
     </div>
   );
 }
@@ -0,0 +1,218 @@
+/**
+ * Export section component
+ * Configures and triggers SVG, animated GIF and video export
+ */
+
+import { useState } from 'react';
+import { Film, Video, PenTool } from 'lucide-react';
+import type { GifExportOptions, VideoExportOptions } from '@/types';
+import type { VideoFormat } from '@/utils/constants';
+import { planVideoRecording } from '@/utils/recording';
+
+interface ExportSectionProps {
+  /** Export progress (0-1) while a GIF is being rendered, null otherwise */
+  gifProgress: number | null;
+  /** Recording progress (0-1) while a video is being recorded, null otherwise */
+  videoProgress: number | null;
+  /** Video formats the browser can record */
+  videoFormats: VideoFormat[];
+  /** Loop period of the visible patterns in frames (null if aperiodic) */
+  loopPeriod: number | null;
+  /** Animation speed in milliseconds per frame */
+  animationSpeed: number;
+  /** Callback to export the given frame range as a GIF */
+  onExportGif: (options: GifExportOptions) => void;
+  /** Callback to export the current frame as SVG */
+  onExportSvg: () => void;
+  /** Callback to record a video */
+  onRecordVideo: (options: VideoExportOptions) => void;
+}
+
+/**
+ * Labeled integer input used by the export settings
+ */
+function NumberField({
+  label,
+  value,
+  min,
+  onChange
+}: {
+  label: string;
+  value: number;
+  min: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="block">
+      <span className="text-xs text-gray-400">{label}</span>
+      <input
+        type="number"
+        min={min}
+        value={value}
+        onChange={(e) => onChange(Math.max(min, parseInt(e.target.value, 10) || min))}
+        className="w-full bg-gray-800 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+    </label>
+  );
+}
+
+/**
+ * Export settings and actions
+ */
+export function ExportSection({
+  gifProgress,
+  videoProgress,
+  videoFormats,
+  loopPeriod,
+  animationSpeed,
+  onExportGif,
+  onExportSvg,
+  onRecordVideo
+}: ExportSectionProps) {
+  const [gifOptions, setGifOptions] = useState<GifExportOptions>({
+    startFrame: 0,
+    endFrame: 60,
+    frameStep: 1,
+    loopCount: 0
+  });
+  const [videoOptions, setVideoOptions] = useState<VideoExportOptions>({
+    fps: 30,
+    duration: 5,
+    mimeType: videoFormats[0]?.mimeType ?? '',
+    seamlessLoop: true,
+    startFrame: 0
+  });
+
+  const isExporting = gifProgress !== null || videoProgress !== null;
+  const updateOptions = (updates: Partial<GifExportOptions>) => {
+    setGifOptions({ ...gifOptions, ...updates });
+  };
+  const updateVideoOptions = (updates: Partial<VideoExportOptions>) => {
+    setVideoOptions({ ...videoOptions, ...updates });
+  };
+
+  const videoPlan = planVideoRecording(videoOptions, animationSpeed, loopPeriod);
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-4 space-y-3">
+      <h3 className="text-lg font-semibold text-white">Export</h3>
+
+      <button
+        onClick={onExportSvg}
+        disabled={isExporting}
+        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-2 rounded text-sm flex items-center justify-center gap-2 transition-colors"
+      >
+        <PenTool size={16} />
+        Export Frame as SVG
+      </button>
+      <p className="text-xs text-gray-400">
+        Vector glyphs only: bloom and post effects are not included in the SVG
+      </p>
+
+      <h4 className="text-sm font-semibold text-gray-300 pt-2">Animated GIF</h4>
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          label="Start Frame"
+          value={gifOptions.startFrame}
+          min={0}
+          onChange={(startFrame) => updateOptions({ startFrame })}
+        />
+        <NumberField
+          label="End Frame"
+          value={gifOptions.endFrame}
+          min={0}
+          onChange={(endFrame) => updateOptions({ endFrame })}
+        />
+        <NumberField
+          label="Frame Step"
+          value={gifOptions.frameStep}
+          min={1}
+          onChange={(frameStep) => updateOptions({ frameStep })}
+        />
+        <NumberField
+          label="Loops (0 = forever)"
+          value={gifOptions.loopCount}
+          min={0}
+          onChange={(loopCount) => updateOptions({ loopCount })}
+        />
+      </div>
+
+      <button
+        onClick={() => onExportGif(gifOptions)}
+        disabled={isExporting}
+        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-2 rounded text-sm flex items-center justify-center gap-2 transition-colors"
+      >
+        <Film size={16} />
+        {gifProgress !== null ? `Rendering ${Math.round(gifProgress * 100)}%` : 'Export GIF'}
+      </button>
+
+      <h4 className="text-sm font-semibold text-gray-300 pt-2">Video</h4>
+      {videoFormats.length === 0 ? (
+        <p className="text-xs text-gray-400">Video recording is not supported in this browser.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              label="Start Frame"
+              value={videoOptions.startFrame}
+              min={0}
+              onChange={(startFrame) => updateVideoOptions({ startFrame })}
+            />
+            <NumberField
+              label="FPS"
+              value={videoOptions.fps}
+              min={1}
+              onChange={(fps) => updateVideoOptions({ fps: Math.min(60, fps) })}
+            />
+            <NumberField
+              label="Duration (s)"
+              value={videoOptions.duration}
+              min={1}
+              onChange={(duration) => updateVideoOptions({ duration })}
+            />
+            <label className="block">
+              <span className="text-xs text-gray-400">Format</span>
+              <select
+                value={videoOptions.mimeType}
+                onChange={(e) => updateVideoOptions({ mimeType: e.target.value })}
+                className="w-full bg-gray-800 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {videoFormats.map(format => (
+                  <option key={format.mimeType} value={format.mimeType}>{format.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={videoOptions.seamlessLoop}
+              onChange={(e) => updateVideoOptions({ seamlessLoop: e.target.checked })}
+              className="w-4 h-4 mr-2"
+            />
+            <label className="text-sm font-medium text-gray-300">
+              Seamless Loop
+            </label>
+          </div>
+          {videoOptions.seamlessLoop && (
+            <p className="text-xs text-gray-400">
+              {loopPeriod === null
+                ? 'Visible patterns do not repeat, clip will not loop seamlessly'
+                : `Loop: ${loopPeriod.toFixed(1)} frames, clip ${videoPlan.duration.toFixed(2)}s`}
+            </p>
+          )}
+
+          <button
+            onClick={() => onRecordVideo(videoOptions)}
+            disabled={isExporting}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-2 rounded text-sm flex items-center justify-center gap-2 transition-colors"
+          >
+            <Video size={16} />
+            {videoProgress !== null ? `Recording ${Math.round(videoProgress * 100)}%` : 'Record Video'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
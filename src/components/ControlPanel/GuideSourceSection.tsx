@@ -0,0 +1,149 @@
+/**
+ * Guide source section component
+ * Generates the active layer's shape guide from text or pasted SVG markup
+ */
+
+import { useState } from 'react';
+import { Type, Shapes } from 'lucide-react';
+import type { TextGuideOptions } from '@/types';
+import { GUIDE_FONTS, GUIDE_FONT_WEIGHTS } from '@/utils/constants';
+import { SliderControl } from './SliderControl';
+
+interface GuideSourceSectionProps {
+  /** Error from the last attempt to generate a guide (null if none) */
+  guideError: string | null;
+  /** Callback to use rendered text as the shape guide */
+  onTextGuide: (options: TextGuideOptions) => void;
+  /** Callback to use SVG markup as the shape guide */
+  onSvgGuide: (markup: string) => void;
+}
+
+/**
+ * Text and SVG shape guide generators
+ */
+export function GuideSourceSection({ guideError, onTextGuide, onSvgGuide }: GuideSourceSectionProps) {
+  const [source, setSource] = useState<'text' | 'svg'>('text');
+  const [textOptions, setTextOptions] = useState<TextGuideOptions>({
+    text: 'HELLO',
+    fontFamily: GUIDE_FONTS[0].value,
+    fontWeight: 900,
+    fontSize: 200,
+    letterSpacing: 0
+  });
+  const [svgMarkup, setSvgMarkup] = useState('');
+
+  const updateTextOptions = (updates: Partial<TextGuideOptions>) => {
+    setTextOptions({ ...textOptions, ...updates });
+  };
+
+  const tabClass = (active: boolean) =>
+    `flex-1 px-3 py-1 rounded text-sm flex items-center justify-center gap-1 transition-colors ${
+      active ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-600'
+    }`;
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-4 space-y-3">
+      <h3 className="text-lg font-semibold text-white">Generate Shape Guide</h3>
+
+      <div className="flex gap-2">
+        <button onClick={() => setSource('text')} className={tabClass(source === 'text')}>
+          <Type size={16} />
+          Text
+        </button>
+        <button onClick={() => setSource('svg')} className={tabClass(source === 'svg')}>
+          <Shapes size={16} />
+          SVG
+        </button>
+      </div>
+
+      {source === 'text' ? (
+        <>
+          <textarea
+            value={textOptions.text}
+            onChange={(e) => updateTextOptions({ text: e.target.value })}
+            rows={2}
+            placeholder="Text to render"
+            className="w-full bg-gray-800 text-white rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={textOptions.fontFamily}
+              onChange={(e) => updateTextOptions({ fontFamily: e.target.value })}
+              className="w-full bg-gray-800 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {GUIDE_FONTS.map(font => (
+                <option key={font.value} value={font.value}>
+                  {font.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={textOptions.fontWeight}
+              onChange={(e) => updateTextOptions({ fontWeight: Number(e.target.value) })}
+              className="w-full bg-gray-800 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {GUIDE_FONT_WEIGHTS.map(weight => (
+                <option key={weight.value} value={weight.value}>
+                  {weight.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <SliderControl
+            label="Font Size"
+            value={textOptions.fontSize}
+            min={20}
+            max={400}
+            step={10}
+            unit="px"
+            onChange={(fontSize) => updateTextOptions({ fontSize })}
+          />
+
+          <SliderControl
+            label="Letter Spacing"
+            value={textOptions.letterSpacing}
+            min={-20}
+            max={100}
+            step={1}
+            unit="px"
+            onChange={(letterSpacing) => updateTextOptions({ letterSpacing })}
+          />
+
+          <button
+            onClick={() => onTextGuide(textOptions)}
+            disabled={textOptions.text.trim() === ''}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-2 rounded text-sm transition-colors"
+          >
+            Use Text as Guide
+          </button>
+        </>
+      ) : (
+        <>
+          <textarea
+            value={svgMarkup}
+            onChange={(e) => setSvgMarkup(e.target.value)}
+            rows={5}
+            placeholder="<svg viewBox=&quot;0 0 100 100&quot;>…</svg>"
+            className="w-full bg-gray-800 text-white font-mono rounded px-3 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-400">
+            Light areas attract symbols; transparent areas stay dark
+          </p>
+          <button
+            onClick={() => onSvgGuide(svgMarkup)}
+            disabled={svgMarkup.trim() === ''}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-2 rounded text-sm transition-colors"
+          >
+            Use SVG as Guide
+          </button>
+        </>
+      )}
+
+      {guideError && (
+        <p className="text-xs text-red-400">{guideError}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * History section component
+ * Undo/redo buttons and the list of recorded edits
+ */
+
+import { useEffect, useRef } from 'react';
+import { Undo2, Redo2 } from 'lucide-react';
+
+interface HistorySectionProps {
+  /** Labels of all history entries, oldest first */
+  labels: string[];
+  /** Index of the current entry */
+  currentIndex: number;
+  /** Callback to undo the last edit */
+  onUndo: () => void;
+  /** Callback to redo the next edit */
+  onRedo: () => void;
+  /** Callback to jump to an entry */
+  onJump: (index: number) => void;
+}
+
+/**
+ * Edit history with undo/redo
+ * Entries after the current one are dimmed and can be redone
+ */
+export function HistorySection({
+  labels,
+  currentIndex,
+  onUndo,
+  onRedo,
+  onJump
+}: HistorySectionProps) {
+  const listRef = useRef<HTMLOListElement>(null);
+
+  // Keep the current entry in view
+  useEffect(() => {
+    const current = listRef.current?.children[currentIndex] as HTMLElement | undefined;
+    current?.scrollIntoView({ block: 'nearest' });
+  }, [currentIndex, labels.length]);
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-4 space-y-2">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-white">History</h3>
+        <div className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={currentIndex === 0}
+            title="Undo (Ctrl+Z)"
+            className="bg-gray-800 hover:bg-gray-600 disabled:text-gray-500 disabled:hover:bg-gray-800 disabled:cursor-not-allowed text-white px-2 py-1 rounded transition-colors"
+          >
+            <Undo2 size={16} />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={currentIndex === labels.length - 1}
+            title="Redo (Ctrl+Shift+Z)"
+            className="bg-gray-800 hover:bg-gray-600 disabled:text-gray-500 disabled:hover:bg-gray-800 disabled:cursor-not-allowed text-white px-2 py-1 rounded transition-colors"
+          >
+            <Redo2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      <ol ref={listRef} className="max-h-40 overflow-y-auto space-y-1">
+        {labels.map((label, index) => (
+          <li key={index}>
+            <button
+              onClick={() => onJump(index)}
+              className={`w-full text-left px-2 py-1 rounded text-xs truncate transition-colors ${
+                index === currentIndex
+                  ? 'bg-blue-600 text-white'
+                  : index > currentIndex
+                    ? 'text-gray-500 hover:bg-gray-600'
+                    : 'text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
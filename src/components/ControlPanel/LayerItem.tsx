@@ -3,8 +3,9 @@
  */
 
 import { RxDragHandleDots2 } from 'react-icons/rx';
-import { Eye, EyeOff, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
-import type { Layer } from '@/types';
+import { Eye, EyeOff, Trash2, ChevronDown, ChevronRight, Scissors } from 'lucide-react';
+import type { Layer, BlendMode, MaskMode } from '@/types';
+import { BLEND_MODES, MASK_MODES } from '@/utils/constants';
 
 interface LayerItemProps {
   /** The layer to display */
@@ -23,6 +24,12 @@ interface LayerItemProps {
   onNameChange: (name: string) => void;
   /** Callback when layer opacity changes */
   onOpacityChange: (opacity: number) => void;
+  /** Callback when layer blend mode changes */
+  onBlendModeChange: (blendMode: BlendMode) => void;
+  /** Callback when the layer's mask mode changes */
+  onMaskModeChange: (maskMode: MaskMode) => void;
+  /** Callback when mask inversion is toggled */
+  onMaskInvertChange: (maskInvert: boolean) => void;
   /** Callback when layer should be deleted */
   onDelete: () => void;
   /** Callback when layer expand state is toggled */
@@ -44,6 +51,9 @@ export function LayerItem({
   onToggleVisibility,
   onNameChange,
   onOpacityChange,
+  onBlendModeChange,
+  onMaskModeChange,
+  onMaskInvertChange,
   onDelete,
   onToggleExpand,
   onDragStart,
@@ -87,6 +97,14 @@ export function LayerItem({
           />
         </button>
 
+        <button
+          onClick={() => onMaskModeChange(layer.maskMode === 'none' ? 'alpha' : 'none')}
+          title={layer.maskMode === 'none' ? 'Use as mask for the layer above' : 'Stop using as mask'}
+          className={layer.maskMode === 'none' ? 'text-gray-400 hover:text-white' : 'text-purple-400 hover:text-purple-300'}
+        >
+          <Scissors size={16} />
+        </button>
+
         {!isOnlyLayer && (
           <button
             onClick={onDelete}
@@ -97,21 +115,64 @@ export function LayerItem({
         )}
       </div>
 
-      {/* Layer Opacity */}
-      {isExpanded && (
-        <div className="mt-2 ml-7">
-          <label className="text-xs text-gray-400">
-            Opacity: {Math.round(layer.opacity * 100)}%
+      {/* Mask Settings */}
+      {isExpanded && layer.maskMode !== 'none' && (
+        <div className="mt-2 ml-7 space-y-2">
+          <label className="block">
+            <span className="text-xs text-gray-400">Mask Type</span>
+            <select
+              value={layer.maskMode}
+              onChange={(e) => onMaskModeChange(e.target.value as MaskMode)}
+              className="w-full bg-gray-700 text-white rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {MASK_MODES.filter(mode => mode.value !== 'none').map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={layer.maskInvert}
+              onChange={(e) => onMaskInvertChange(e.target.checked)}
+              className="w-4 h-4 mr-2"
+            />
+            <label className="text-xs text-gray-300">
+              Invert Mask
+            </label>
+          </div>
+        </div>
+      )}
+
+      {/* Layer Opacity and Blend Mode (mask layers are not drawn) */}
+      {isExpanded && layer.maskMode === 'none' && (
+        <div className="mt-2 ml-7 space-y-2">
+          <div>
+            <label className="text-xs text-gray-400">
+              Opacity: {Math.round(layer.opacity * 100)}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={layer.opacity}
+              onChange={(e) => onOpacityChange(parseFloat(e.target.value))}
+              className="w-full h-1"
+            />
+          </div>
+          <label className="block">
+            <span className="text-xs text-gray-400">Blend Mode</span>
+            <select
+              value={layer.blendMode}
+              onChange={(e) => onBlendModeChange(e.target.value as BlendMode)}
+              className="w-full bg-gray-700 text-white rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {BLEND_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
           </label>
-          <input
-            type="range"
-            min="0"
-            max="1"
-            step="0.05"
-            value={layer.opacity}
-            onChange={(e) => onOpacityChange(parseFloat(e.target.value))}
-            className="w-full h-1"
-          />
         </div>
       )}
     </div>
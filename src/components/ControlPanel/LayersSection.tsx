@@ -4,8 +4,10 @@
  */
 
 import { useState } from 'react';
-import { Plus } from 'lucide-react';
+import { Plus, CornerLeftDown } from 'lucide-react';
 import type { Layer } from '@/types';
+import { MAX_LAYER_LIMIT } from '@/utils/constants';
+import { isMaskLayer, findMaskTarget } from '@/utils/layerMask';
 import { LayerItem } from './LayerItem';
 
 interface LayersSectionProps {
@@ -15,6 +17,10 @@ interface LayersSectionProps {
   activeLayerId: string;
   /** Set of expanded layer IDs */
   expandedLayerIds: Set<string>;
+  /** Maximum number of layers */
+  maxLayers: number;
+  /** Callback to change the layer limit */
+  onMaxLayersChange: (maxLayers: number) => void;
   /** Callback to set active layer */
   onSetActiveLayer: (id: string) => void;
   /** Callback to add a new layer */
@@ -29,6 +35,27 @@ interface LayersSectionProps {
   onToggleExpanded: (id: string) => void;
 }
 
+/**
+ * Shows which layer a mask layer clips
+ */
+function MaskIndicator({ layer, target }: { layer: Layer; target: Layer | null }) {
+  let text: string;
+  if (!layer.visible) {
+    text = 'Mask hidden, not applied';
+  } else if (!target) {
+    text = 'No visible layer above to mask';
+  } else {
+    text = `Masks "${target.name}" (${layer.maskMode}${layer.maskInvert ? ', inverted' : ''})`;
+  }
+
+  return (
+    <div className="flex items-center gap-1 ml-7 mt-1 text-xs text-purple-300">
+      <CornerLeftDown size={12} />
+      {text}
+    </div>
+  );
+}
+
 /**
  * Layers management section with list and controls
  */
@@ -36,6 +63,8 @@ export function LayersSection({
   layers,
   activeLayerId,
   expandedLayerIds,
+  maxLayers,
+  onMaxLayersChange,
   onSetActiveLayer,
   onAddLayer,
   onRemoveLayer,
@@ -44,6 +73,7 @@ export function LayersSection({
   onToggleExpanded
 }: LayersSectionProps) {
   const [draggedLayerId, setDraggedLayerId] = useState<string | null>(null);
+  const isAtLimit = layers.length >= maxLayers;
 
   return (
     <div className="bg-gray-700 rounded-lg p-4 space-y-2">
@@ -51,7 +81,8 @@ export function LayersSection({
         <h3 className="text-lg font-semibold text-white">Layers</h3>
         <button
           onClick={onAddLayer}
-          disabled={layers.length >= 3}
+          disabled={isAtLimit}
+          title={isAtLimit ? `Layer limit reached (${maxLayers})` : 'Add layer'}
           className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-1 rounded text-sm flex items-center gap-1 transition-colors"
         >
           <Plus size={16} />
@@ -59,6 +90,24 @@ export function LayersSection({
         </button>
       </div>
 
+      <p className={`text-xs ${isAtLimit ? 'text-yellow-400' : 'text-gray-400'}`}>
+        {isAtLimit
+          ? `Layer limit reached (${maxLayers}). Remove a layer or raise the limit to add another.`
+          : `${layers.length} of ${maxLayers} layers`}
+      </p>
+
+      <label className="flex items-center justify-between text-xs text-gray-400">
+        Layer limit
+        <input
+          type="number"
+          min={1}
+          max={MAX_LAYER_LIMIT}
+          value={maxLayers}
+          onChange={(e) => onMaxLayersChange(Math.min(MAX_LAYER_LIMIT, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+          className="w-16 bg-gray-800 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+
       {layers.map((layer, index) => (
         <div
           key={layer.id}
@@ -79,11 +128,17 @@ export function LayersSection({
             onToggleVisibility={() => onUpdateLayer(layer.id, { visible: !layer.visible })}
             onNameChange={(name) => onUpdateLayer(layer.id, { name })}
             onOpacityChange={(opacity) => onUpdateLayer(layer.id, { opacity })}
+            onBlendModeChange={(blendMode) => onUpdateLayer(layer.id, { blendMode })}
+            onMaskModeChange={(maskMode) => onUpdateLayer(layer.id, { maskMode })}
+            onMaskInvertChange={(maskInvert) => onUpdateLayer(layer.id, { maskInvert })}
             onDelete={() => onRemoveLayer(layer.id)}
             onToggleExpand={() => onToggleExpanded(layer.id)}
             onDragStart={() => setDraggedLayerId(layer.id)}
             onDragEnd={() => setDraggedLayerId(null)}
           />
+          {isMaskLayer(layer) && (
+            <MaskIndicator layer={layer} target={findMaskTarget(layers, index)} />
+          )}
         </div>
       ))}
     </div>
@@ -1,34 +1,44 @@
 /**
  * Pattern controls component
- * Handles pattern type selection and shape influence
+ * Handles pattern selection, the selected pattern's own parameters and shape influence
  */
 
-import { patternTypes, type PatternType } from '@/utils/constants';
+import type { PatternId, PatternParams, PatternParamValue } from '@/types';
+import { getPattern, getPatterns } from '@/utils/patternRegistry';
 import { SliderControl } from './SliderControl';
 
 interface PatternControlsProps {
-  /** Current pattern type */
-  pattern: string;
+  /** Current pattern id */
+  pattern: PatternId;
+  /** Resolved parameter values of the current pattern */
+  patternParams: PatternParams;
   /** Shape influence value (0-1) */
   shapeInfluence: number;
   /** Whether shape data exists */
   hasShapeData: boolean;
   /** Callback when pattern changes */
-  onPatternChange: (pattern: string) => void;
+  onPatternChange: (pattern: PatternId) => void;
+  /** Callback when one of the pattern's parameters changes */
+  onPatternParamChange: (key: string, value: PatternParamValue) => void;
   /** Callback when shape influence changes */
   onShapeInfluenceChange: (value: number) => void;
 }
 
 /**
- * Controls for pattern type and shape influence
+ * Controls for pattern type, pattern parameters and shape influence
+ * Parameter controls are generated from the pattern's schema in the registry
  */
 export function PatternControls({
   pattern,
+  patternParams,
   shapeInfluence,
   hasShapeData,
   onPatternChange,
+  onPatternParamChange,
   onShapeInfluenceChange
 }: PatternControlsProps) {
+  const schema = getPattern(pattern)?.paramSchema ?? [];
+
   return (
     <>
       {/* Pattern Type */}
@@ -41,14 +51,78 @@ export function PatternControls({
           onChange={(e) => onPatternChange(e.target.value)}
           className="w-full bg-gray-700 text-white rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
         >
-          {patternTypes.map(type => (
-            <option key={type} value={type}>
-              {type.charAt(0).toUpperCase() + type.slice(1)}
+          {getPatterns().map(definition => (
+            <option key={definition.id} value={definition.id}>
+              {definition.label}
             </option>
           ))}
         </select>
       </div>
 
+      {/* Pattern Parameters */}
+      {schema.map((param) => {
+        const value = patternParams[param.key];
+
+        if (param.type === 'number') {
+          return (
+            <SliderControl
+              key={param.key}
+              label={param.label}
+              value={Number(value)}
+              min={param.min}
+              max={param.max}
+              step={param.step}
+              unit={param.unit}
+              onChange={(v) => onPatternParamChange(param.key, v)}
+              description={param.description}
+            />
+          );
+        }
+
+        if (param.type === 'boolean') {
+          return (
+            <div key={param.key}>
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={value === true}
+                  onChange={(e) => onPatternParamChange(param.key, e.target.checked)}
+                  className="w-4 h-4 mr-2"
+                />
+                <label className="text-sm font-medium text-gray-300">
+                  {param.label}
+                </label>
+              </div>
+              {param.description && (
+                <p className="text-xs text-gray-400 mt-1">{param.description}</p>
+              )}
+            </div>
+          );
+        }
+
+        return (
+          <div key={param.key}>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              {param.label}
+            </label>
+            <select
+              value={String(value)}
+              onChange={(e) => onPatternParamChange(param.key, e.target.value)}
+              className="w-full bg-gray-700 text-white rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {param.options.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {param.description && (
+              <p className="text-xs text-gray-400 mt-1">{param.description}</p>
+            )}
+          </div>
+        );
+      })}
+
       {/* Shape Influence - only show if shape data exists */}
       {hasShapeData && (
         <SliderControl
@@ -65,4 +139,3 @@ export function PatternControls({
     </>
   );
 }
-
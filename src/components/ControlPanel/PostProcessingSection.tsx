@@ -0,0 +1,163 @@
+/**
+ * Post-processing section component
+ * Effects applied to the composited frame (bloom, then the post-effect stack)
+ */
+
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import type { BloomSettings, PostEffectSettings } from '@/types';
+import { getPostEffect, resolvePostEffectParams } from '@/utils/postEffects';
+import { SliderControl } from './SliderControl';
+
+interface PostProcessingSectionProps {
+  /** Bloom settings */
+  bloom: BloomSettings;
+  /** Callback with the changed bloom settings */
+  onBloomChange: (updates: Partial<BloomSettings>) => void;
+  /** Post-effect stack in application order */
+  postEffects: PostEffectSettings[];
+  /** Callback with the changed stack */
+  onPostEffectsChange: (postEffects: PostEffectSettings[]) => void;
+}
+
+/**
+ * Post-processing settings shared by all layers
+ */
+export function PostProcessingSection({
+  bloom,
+  onBloomChange,
+  postEffects,
+  onPostEffectsChange
+}: PostProcessingSectionProps) {
+  const updateEffect = (index: number, updates: Partial<PostEffectSettings>) => {
+    onPostEffectsChange(postEffects.map((effect, i) => (i === index ? { ...effect, ...updates } : effect)));
+  };
+
+  const moveEffect = (index: number, offset: number) => {
+    const next = [...postEffects];
+    const [effect] = next.splice(index, 1);
+    next.splice(index + offset, 0, effect);
+    onPostEffectsChange(next);
+  };
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-4 space-y-2">
+      <h3 className="text-lg font-semibold text-white">Post-Processing</h3>
+
+      {/* Bloom Toggle */}
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          checked={bloom.enabled}
+          onChange={(e) => onBloomChange({ enabled: e.target.checked })}
+          className="w-4 h-4 mr-2"
+        />
+        <label className="text-sm font-medium text-gray-300">
+          Bloom
+        </label>
+      </div>
+
+      {bloom.enabled && (
+        <>
+          <SliderControl
+            label="Bloom Threshold"
+            value={bloom.threshold}
+            min={0}
+            max={1}
+            step={0.05}
+            onChange={(threshold) => onBloomChange({ threshold })}
+            formatValue={(v) => v.toFixed(2)}
+            description="Brightness above which pixels glow"
+          />
+          <SliderControl
+            label="Bloom Radius"
+            value={bloom.radius}
+            min={4}
+            max={128}
+            step={4}
+            unit="px"
+            onChange={(radius) => onBloomChange({ radius })}
+          />
+          <SliderControl
+            label="Bloom Strength"
+            value={bloom.strength}
+            min={0}
+            max={3}
+            step={0.1}
+            onChange={(strength) => onBloomChange({ strength })}
+            formatValue={(v) => v.toFixed(1)}
+          />
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={bloom.replaceGlow}
+              onChange={(e) => onBloomChange({ replaceGlow: e.target.checked })}
+              className="w-4 h-4 mr-2"
+            />
+            <label className="text-sm font-medium text-gray-300">
+              Replace layer glow
+            </label>
+          </div>
+          <p className="text-xs text-gray-400">
+            Turns off every layer's per-glyph glow while bloom is on (faster)
+          </p>
+        </>
+      )}
+
+      {/* Post-Effect Stack (applied top to bottom) */}
+      <label className="block text-sm font-medium text-gray-300 pt-2">
+        Effect Stack
+      </label>
+      {postEffects.map((effect, index) => {
+        const definition = getPostEffect(effect.id);
+        if (!definition) return null;
+        const params = resolvePostEffectParams(effect);
+
+        return (
+          <div key={effect.id} className="bg-gray-800 rounded p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={effect.enabled}
+                onChange={(e) => updateEffect(index, { enabled: e.target.checked })}
+                className="w-4 h-4"
+              />
+              <label className="flex-1 text-sm font-medium text-gray-300">
+                {definition.label}
+              </label>
+              <button
+                onClick={() => moveEffect(index, -1)}
+                disabled={index === 0}
+                className="text-gray-400 hover:text-white disabled:opacity-30"
+                title="Apply earlier"
+              >
+                <ChevronUp size={16} />
+              </button>
+              <button
+                onClick={() => moveEffect(index, 1)}
+                disabled={index === postEffects.length - 1}
+                className="text-gray-400 hover:text-white disabled:opacity-30"
+                title="Apply later"
+              >
+                <ChevronDown size={16} />
+              </button>
+            </div>
+
+            {effect.enabled && definition.paramSchema.map(param => (param.type === 'number' && (
+              <SliderControl
+                key={param.key}
+                label={param.label}
+                value={Number(params[param.key])}
+                min={param.min}
+                max={param.max}
+                step={param.step}
+                unit={param.unit}
+                onChange={(value) => updateEffect(index, { params: { ...effect.params, [param.key]: value } })}
+                description={param.description}
+              />
+            )))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
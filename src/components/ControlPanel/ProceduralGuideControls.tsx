@@ -0,0 +1,96 @@
+/**
+ * Procedural guide controls component
+ * Handles the generated gradient, noise, Voronoi and checkerboard shape guides
+ */
+
+import type { ProceduralGuideType } from '@/types';
+import { PROCEDURAL_GUIDES } from '@/utils/constants';
+import type { ProceduralGuideSettings } from '@/utils/proceduralGuide';
+import { SliderControl } from './SliderControl';
+
+interface ProceduralGuideControlsProps {
+  /** Current procedural guide settings of the active layer */
+  settings: ProceduralGuideSettings;
+  /** Callback with the changed settings */
+  onChange: (updates: Partial<ProceduralGuideSettings>) => void;
+}
+
+/**
+ * Controls for the procedural guide type and its parameters
+ * Only the parameters the selected type uses are shown
+ */
+export function ProceduralGuideControls({ settings, onChange }: ProceduralGuideControlsProps) {
+  const type = settings.proceduralGuide;
+  const isNoise = type === 'perlin' || type === 'simplex';
+  const hasScale = isNoise || type === 'voronoi' || type === 'checker';
+
+  return (
+    <>
+      {/* Guide Type */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Procedural Guide
+        </label>
+        <select
+          value={type}
+          onChange={(e) => onChange({ proceduralGuide: e.target.value as ProceduralGuideType })}
+          className="w-full bg-gray-700 text-white rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {PROCEDURAL_GUIDES.map(guide => (
+            <option key={guide.value} value={guide.value}>
+              {guide.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {hasScale && (
+        <SliderControl
+          label="Guide Scale"
+          value={settings.proceduralScale}
+          min={1}
+          max={32}
+          step={0.5}
+          onChange={(proceduralScale) => onChange({ proceduralScale })}
+          description="Features per guide width"
+        />
+      )}
+
+      {isNoise && (
+        <SliderControl
+          label="Octaves"
+          value={settings.proceduralOctaves}
+          min={1}
+          max={8}
+          step={1}
+          onChange={(proceduralOctaves) => onChange({ proceduralOctaves })}
+        />
+      )}
+
+      {type !== 'none' && type !== 'radial' && type !== 'voronoi' && (
+        <SliderControl
+          label={type === 'linear' || type === 'conic' ? 'Guide Angle' : 'Scroll Direction'}
+          value={settings.proceduralAngle}
+          min={0}
+          max={360}
+          step={5}
+          unit="°"
+          onChange={(proceduralAngle) => onChange({ proceduralAngle })}
+        />
+      )}
+
+      {type !== 'none' && (
+        <SliderControl
+          label="Guide Speed"
+          value={settings.proceduralSpeed}
+          min={0}
+          max={5}
+          step={0.1}
+          onChange={(proceduralSpeed) => onChange({ proceduralSpeed })}
+          formatValue={(v) => (v === 0 ? 'Static' : v.toFixed(1))}
+          description="Guide widths (or cycles) per 100 frames"
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * Project section component
+ * Save/open and share actions, and project-wide settings such as the random seed
+ */
+
+import { useRef, useState } from 'react';
+import { Dices, Save, FolderOpen, Link } from 'lucide-react';
+
+interface ProjectSectionProps {
+  /** Project seed driving all pattern randomness */
+  seed: number;
+  /** Callback when the seed changes */
+  onSeedChange: (seed: number) => void;
+  /** Callback to pick a new random seed */
+  onNewSeed: () => void;
+  /** Error from the last attempt to open a project (null if none) */
+  projectError: string | null;
+  /** Callback to save the project */
+  onSaveProject: () => void;
+  /** Callback with the project file chosen to open */
+  onOpenProject: (file: File) => void;
+  /** Whether shape guide images are embedded in shared links */
+  includeShapesInLink: boolean;
+  /** Callback when shape embedding is toggled */
+  onIncludeShapesInLinkChange: (include: boolean) => void;
+  /** Error from opening, updating or copying a shared link (null if none) */
+  shareError: string | null;
+  /** Callback to copy the shareable link; resolves to whether it was copied */
+  onCopyLink: () => Promise<boolean>;
+}
+
+/**
+ * Project-wide settings
+ */
+export function ProjectSection({
+  seed,
+  onSeedChange,
+  onNewSeed,
+  projectError,
+  onSaveProject,
+  onOpenProject,
+  includeShapesInLink,
+  onIncludeShapesInLinkChange,
+  shareError,
+  onCopyLink
+}: ProjectSectionProps) {
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null);
+
+  const handleCopyLink = async () => {
+    setCopyStatus(await onCopyLink() ? 'copied' : 'failed');
+    setTimeout(() => setCopyStatus(null), 2000);
+  };
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-4 space-y-2">
+      <h3 className="text-lg font-semibold text-white">Project</h3>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onSaveProject}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm flex items-center justify-center gap-1 transition-colors"
+        >
+          <Save size={16} />
+          Save
+        </button>
+        <button
+          onClick={() => projectInputRef.current?.click()}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm flex items-center justify-center gap-1 transition-colors"
+        >
+          <FolderOpen size={16} />
+          Open
+        </button>
+        <input
+          ref={projectInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onOpenProject(file);
+            // Allow re-opening the same file
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </div>
+      {projectError && (
+        <p className="text-xs text-red-400">{projectError}</p>
+      )}
+
+      <button
+        onClick={handleCopyLink}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm flex items-center justify-center gap-1 transition-colors"
+      >
+        <Link size={16} />
+        {copyStatus === 'copied' ? 'Link Copied' : copyStatus === 'failed' ? 'Copy Failed' : 'Copy Share Link'}
+      </button>
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          checked={includeShapesInLink}
+          onChange={(e) => onIncludeShapesInLinkChange(e.target.checked)}
+          className="w-4 h-4 mr-2"
+        />
+        <label className="text-sm font-medium text-gray-300">
+          Include shape guides in link
+        </label>
+      </div>
+      {shareError && (
+        <p className="text-xs text-red-400">{shareError}</p>
+      )}
+
+      <label className="block text-sm font-medium text-gray-300">
+        Seed
+      </label>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min={0}
+          value={seed}
+          onChange={(e) => onSeedChange(Math.max(0, parseInt(e.target.value, 10) || 0))}
+          className="flex-1 min-w-0 bg-gray-800 text-white font-mono rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={onNewSeed}
+          title="New random seed"
+          className="bg-gray-800 hover:bg-gray-600 text-white px-3 rounded transition-colors"
+        >
+          <Dices size={18} />
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">
+        Same seed and settings always render the same frames
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * Render section component
+ * Glyph rendering backend and a side-by-side check of the backends
+ */
+
+import type { BackendComparison, RenderBackend } from '@/types';
+import { RENDER_BACKENDS } from '@/utils/constants';
+import { supportsWebGL2 } from '@/utils/webglRenderer';
+
+interface RenderSectionProps {
+  /** Backend drawing the glyphs */
+  renderBackend: RenderBackend;
+  /** Callback when the backend changes */
+  onRenderBackendChange: (backend: RenderBackend) => void;
+  /** Results of the last comparison (null before the first one) */
+  comparison: BackendComparison[] | null;
+  /** Callback to compare the backends on the current frame */
+  onCompareBackends: () => void;
+}
+
+/**
+ * Rendering settings shared by all layers
+ */
+export function RenderSection({
+  renderBackend,
+  onRenderBackendChange,
+  comparison,
+  onCompareBackends
+}: RenderSectionProps) {
+  return (
+    <div className="bg-gray-700 rounded-lg p-4 space-y-2">
+      <h3 className="text-lg font-semibold text-white">Rendering</h3>
+
+      <label className="block text-sm font-medium text-gray-300">
+        Backend
+      </label>
+      <select
+        value={renderBackend}
+        onChange={(e) => onRenderBackendChange(e.target.value as RenderBackend)}
+        className="w-full bg-gray-800 text-white rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {RENDER_BACKENDS.map(backend => (
+          <option key={backend.value} value={backend.value}>
+            {backend.label}
+          </option>
+        ))}
+      </select>
+      {renderBackend === 'webgl' && !supportsWebGL2() && (
+        <p className="text-xs text-yellow-400">
+          WebGL2 is not available in this browser; rendering with canvas text instead
+        </p>
+      )}
+
+      <button
+        onClick={onCompareBackends}
+        className="w-full bg-gray-800 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm transition-colors"
+      >
+        Compare Backends
+      </button>
+      {comparison && (
+        <table className="w-full text-xs text-gray-300">
+          <thead>
+            <tr className="text-gray-400">
+              <th className="text-left font-normal">Backend</th>
+              <th className="text-right font-normal">Time</th>
+              <th className="text-right font-normal">Difference</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {comparison.map(result => (
+              <tr key={result.backend}>
+                <td className="font-sans">
+                  {RENDER_BACKENDS.find(b => b.value === result.backend)?.label ?? result.backend}
+                </td>
+                <td className="text-right">{result.renderTime.toFixed(1)} ms</td>
+                <td className="text-right">{(result.difference * 100).toFixed(2)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="text-xs text-gray-400">
+        Renders the current frame with each backend; the difference is measured against the first
+      </p>
+    </div>
+  );
+}
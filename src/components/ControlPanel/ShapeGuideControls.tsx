@@ -0,0 +1,109 @@
+/**
+ * Shape guide controls component
+ * Handles how the active layer's shape guide is fitted and placed on the grid
+ */
+
+import type { ShapeFit } from '@/types';
+import { SHAPE_FIT_MODES } from '@/utils/constants';
+import { SliderControl } from './SliderControl';
+
+interface ShapeGuideControlsProps {
+  /** Fit mode of the shape guide */
+  shapeFit: ShapeFit;
+  /** Horizontal offset as a fraction of the grid width */
+  shapeOffsetX: number;
+  /** Vertical offset as a fraction of the grid height */
+  shapeOffsetY: number;
+  /** Scale on top of the fit */
+  shapeScale: number;
+  /** Rotation in degrees */
+  shapeRotation: number;
+  /** Callback when the fit mode changes */
+  onShapeFitChange: (fit: ShapeFit) => void;
+  /** Callback when the horizontal offset changes */
+  onShapeOffsetXChange: (value: number) => void;
+  /** Callback when the vertical offset changes */
+  onShapeOffsetYChange: (value: number) => void;
+  /** Callback when the scale changes */
+  onShapeScaleChange: (value: number) => void;
+  /** Callback when the rotation changes */
+  onShapeRotationChange: (value: number) => void;
+}
+
+/**
+ * Controls for shape guide fit, position, scale and rotation
+ */
+export function ShapeGuideControls({
+  shapeFit,
+  shapeOffsetX,
+  shapeOffsetY,
+  shapeScale,
+  shapeRotation,
+  onShapeFitChange,
+  onShapeOffsetXChange,
+  onShapeOffsetYChange,
+  onShapeScaleChange,
+  onShapeRotationChange
+}: ShapeGuideControlsProps) {
+  return (
+    <>
+      {/* Fit Mode */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Shape Fit
+        </label>
+        <select
+          value={shapeFit}
+          onChange={(e) => onShapeFitChange(e.target.value as ShapeFit)}
+          className="w-full bg-gray-700 text-white rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {SHAPE_FIT_MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <SliderControl
+        label="Shape Position X"
+        value={shapeOffsetX}
+        min={-1}
+        max={1}
+        step={0.01}
+        onChange={onShapeOffsetXChange}
+        formatValue={(v) => v.toFixed(2)}
+      />
+
+      <SliderControl
+        label="Shape Position Y"
+        value={shapeOffsetY}
+        min={-1}
+        max={1}
+        step={0.01}
+        onChange={onShapeOffsetYChange}
+        formatValue={(v) => v.toFixed(2)}
+      />
+
+      <SliderControl
+        label="Shape Scale"
+        value={shapeScale}
+        min={0.1}
+        max={5}
+        step={0.05}
+        onChange={onShapeScaleChange}
+        formatValue={(v) => `${v.toFixed(2)}×`}
+      />
+
+      <SliderControl
+        label="Shape Rotation"
+        value={shapeRotation}
+        min={-180}
+        max={180}
+        step={1}
+        onChange={onShapeRotationChange}
+        unit="°"
+      />
+    </>
+  );
+}
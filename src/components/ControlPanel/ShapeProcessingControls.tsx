@@ -0,0 +1,131 @@
+/**
+ * Shape processing controls component
+ * Handles the preprocessing chain that turns the shape guide into its brightness map
+ */
+
+import type { ShapeChannel } from '@/types';
+import { SHAPE_CHANNELS } from '@/utils/constants';
+import type { ShapeProcessing } from '@/utils/shapeProcessing';
+import { SliderControl } from './SliderControl';
+
+interface ShapeProcessingControlsProps {
+  /** Current preprocessing settings of the active layer */
+  settings: ShapeProcessing;
+  /** Callback with the changed settings */
+  onChange: (updates: Partial<ShapeProcessing>) => void;
+}
+
+/**
+ * Controls for channel, blur, edges, levels, gamma, contrast, threshold and invert
+ * Steps are listed in the order they are applied
+ */
+export function ShapeProcessingControls({ settings, onChange }: ShapeProcessingControlsProps) {
+  return (
+    <>
+      {/* Channel */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Shape Channel
+        </label>
+        <select
+          value={settings.shapeChannel}
+          onChange={(e) => onChange({ shapeChannel: e.target.value as ShapeChannel })}
+          className="w-full bg-gray-700 text-white rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {SHAPE_CHANNELS.map(channel => (
+            <option key={channel.value} value={channel.value}>
+              {channel.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <SliderControl
+        label="Shape Blur"
+        value={settings.shapeBlur}
+        min={0}
+        max={20}
+        step={1}
+        unit="px"
+        onChange={(shapeBlur) => onChange({ shapeBlur })}
+      />
+
+      {/* Edge Detection */}
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          checked={settings.shapeEdges}
+          onChange={(e) => onChange({ shapeEdges: e.target.checked })}
+          className="w-4 h-4 mr-2"
+        />
+        <label className="text-sm font-medium text-gray-300">
+          Edge Detection (Sobel)
+        </label>
+      </div>
+
+      <SliderControl
+        label="Black Point"
+        value={settings.shapeBlackPoint}
+        min={0}
+        max={1}
+        step={0.01}
+        onChange={(shapeBlackPoint) => onChange({ shapeBlackPoint })}
+        formatValue={(v) => v.toFixed(2)}
+      />
+
+      <SliderControl
+        label="White Point"
+        value={settings.shapeWhitePoint}
+        min={0}
+        max={1}
+        step={0.01}
+        onChange={(shapeWhitePoint) => onChange({ shapeWhitePoint })}
+        formatValue={(v) => v.toFixed(2)}
+      />
+
+      <SliderControl
+        label="Gamma"
+        value={settings.shapeGamma}
+        min={0.1}
+        max={3}
+        step={0.05}
+        onChange={(shapeGamma) => onChange({ shapeGamma })}
+        formatValue={(v) => v.toFixed(2)}
+      />
+
+      <SliderControl
+        label="Shape Contrast"
+        value={settings.shapeContrast}
+        min={0}
+        max={3}
+        step={0.05}
+        onChange={(shapeContrast) => onChange({ shapeContrast })}
+        formatValue={(v) => v.toFixed(2)}
+      />
+
+      <SliderControl
+        label="Threshold"
+        value={settings.shapeThreshold}
+        min={0}
+        max={1}
+        step={0.01}
+        onChange={(shapeThreshold) => onChange({ shapeThreshold })}
+        formatValue={(v) => (v === 0 ? 'Off' : v.toFixed(2))}
+        description="Two-tone guide above 0"
+      />
+
+      {/* Invert */}
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          checked={settings.shapeInvert}
+          onChange={(e) => onChange({ shapeInvert: e.target.checked })}
+          className="w-4 h-4 mr-2"
+        />
+        <label className="text-sm font-medium text-gray-300">
+          Invert Shape
+        </label>
+      </div>
+    </>
+  );
+}
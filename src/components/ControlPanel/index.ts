@@ -4,12 +4,22 @@
 
 export * from './AnimationControls';
 export * from './AppearanceControls';
+export * from './CanvasSizeSection';
 export * from './ControlPanel';
 export * from './EffectControls';
+export * from './ExportSection';
 export * from './FrameInfo';
+export * from './GuideSourceSection';
+export * from './HistorySection';
 export * from './LayerItem';
 export * from './LayersSection';
 export * from './PatternControls';
+export * from './PostProcessingSection';
+export * from './ProceduralGuideControls';
+export * from './ProjectSection';
+export * from './RenderSection';
+export * from './ShapeGuideControls';
+export * from './ShapeProcessingControls';
 export * from './SliderControl';
 export * from './SymbolControls';
 
@@ -3,7 +3,7 @@
  * Floating controls for play/pause, frame stepping, and actions
  */
 
-import { Play, Pause, Download, RefreshCw, ChevronLeft, ChevronRight, Upload } from 'lucide-react';
+import { Play, Pause, Download, RefreshCw, ChevronLeft, ChevronRight, Upload, Camera } from 'lucide-react';
 
 interface CanvasControlsProps {
   /** Whether animation is currently playing */
@@ -14,6 +14,8 @@ interface CanvasControlsProps {
   onStepFrame: (direction: number) => void;
   /** Callback when upload button is clicked */
   onUpload: () => void;
+  /** Callback when camera button is clicked */
+  onCamera: () => void;
   /** Callback when download button is clicked */
   onDownload: () => void;
   /** Callback when randomize button is clicked */
@@ -28,6 +30,7 @@ export function CanvasControls({
   onToggleAnimation,
   onStepFrame,
   onUpload,
+  onCamera,
   onDownload,
   onRandomize
 }: CanvasControlsProps) {
@@ -59,6 +62,13 @@ export function CanvasControls({
       >
         <Upload size={20} />
       </button>
+      <button
+        onClick={onCamera}
+        title="Use camera as shape guide"
+        className="bg-gray-800 hover:bg-gray-700 text-white p-3 rounded-lg shadow-lg transition-colors"
+      >
+        <Camera size={20} />
+      </button>
       <button
         onClick={onDownload}
         className="bg-gray-800 hover:bg-gray-700 text-white p-3 rounded-lg shadow-lg transition-colors"
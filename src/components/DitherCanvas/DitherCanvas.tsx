@@ -3,14 +3,31 @@
  * Renders the dithered pattern with overlays
  */
 
+import type { ShapeProcessing } from '@/utils/shapeProcessing';
 import { CanvasControls } from './CanvasControls';
 import { ShapePreview } from './ShapePreview';
 
 interface DitherCanvasProps {
   /** Reference to the canvas element */
   canvasRef: React.RefObject<HTMLCanvasElement>;
+  /** Reference to the canvas area (measured for the canvas size) */
+  containerRef: React.RefObject<HTMLDivElement>;
+  /** Size the canvas is displayed at in CSS pixels */
+  previewSize: { width: number; height: number };
+  /** Display size relative to the rendered size (1 = pixel for pixel) */
+  previewScale: number;
   /** Shape image to display (if any) */
   shapeImage: HTMLImageElement | null;
+  /** Video or camera shape guide to display (if any) */
+  shapeVideo: HTMLVideoElement | null;
+  /** Preprocessed brightness map of the shape (if any) */
+  shapeData: number[][] | null;
+  /** Preprocessing settings of the active layer (for the live video preview) */
+  shapeProcessing: ShapeProcessing;
+  /** Why the last video or camera could not be opened (null if fine) */
+  videoError: string | null;
+  /** Why the render worker failed (null if fine) */
+  renderError: string | null;
   /** Whether animation is playing */
   isAnimating: boolean;
   /** File input reference for image upload */
@@ -27,6 +44,8 @@ interface DitherCanvasProps {
   onClearShape: () => void;
   /** Callback when image upload changes */
   onImageUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  /** Callback when the camera should become the shape guide */
+  onUseCamera: () => void;
 }
 
 /**
@@ -34,7 +53,15 @@ interface DitherCanvasProps {
  */
 export function DitherCanvas({
   canvasRef,
+  containerRef,
+  previewSize,
+  previewScale,
   shapeImage,
+  shapeVideo,
+  shapeData,
+  shapeProcessing,
+  videoError,
+  renderError,
   isAnimating,
   fileInputRef,
   onToggleAnimation,
@@ -42,23 +69,42 @@ export function DitherCanvas({
   onDownload,
   onRandomize,
   onClearShape,
-  onImageUpload
+  onImageUpload,
+  onUseCamera
 }: DitherCanvasProps) {
   return (
-    <div className="flex-1 relative">
+    <div ref={containerRef} className="flex-1 min-w-0 relative flex items-center justify-center overflow-hidden">
+      {/* Fixed resolutions are scaled to fit; only enlarged previews keep hard pixel edges */}
       <canvas 
         ref={canvasRef} 
-        className="w-full h-full"
-        style={{ imageRendering: 'pixelated' }}
+        style={{
+          width: previewSize.width,
+          height: previewSize.height,
+          imageRendering: previewScale >= 1 ? 'pixelated' : 'auto'
+        }}
       />
       
       {/* Shape Preview */}
-      {shapeImage && (
+      {(shapeImage || shapeVideo) && (
         <ShapePreview 
           shapeImage={shapeImage}
+          shapeVideo={shapeVideo}
+          shapeData={shapeData}
+          shapeProcessing={shapeProcessing}
           onClear={onClearShape}
         />
       )}
+
+      {/* Video and Render Errors */}
+      {(videoError || renderError) && (
+        <div className="absolute top-6 right-6 space-y-2">
+          {[videoError, renderError].filter(Boolean).map(message => (
+            <div key={message} className="bg-gray-800 text-red-400 text-sm px-3 py-2 rounded-lg shadow-lg">
+              {message}
+            </div>
+          ))}
+        </div>
+      )}
       
       {/* Floating Controls */}
       <CanvasControls
@@ -66,6 +112,7 @@ export function DitherCanvas({
         onToggleAnimation={onToggleAnimation}
         onStepFrame={onStepFrame}
         onUpload={() => fileInputRef.current?.click()}
+        onCamera={onUseCamera}
         onDownload={onDownload}
         onRandomize={onRandomize}
       />
@@ -74,7 +121,7 @@ export function DitherCanvas({
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept="image/*,video/*"
         onChange={onImageUpload}
         className="hidden"
       />
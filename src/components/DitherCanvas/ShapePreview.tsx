@@ -1,21 +1,110 @@
 /**
  * Shape preview overlay component
- * Displays the uploaded shape guide image
+ * Displays the uploaded shape guide and the result of its preprocessing
  */
 
+import { useEffect, useRef, useState } from 'react';
 import { X } from 'lucide-react';
+import type { ShapeProcessing } from '@/utils/shapeProcessing';
+import { getVideoShapeData } from '@/utils/videoGuide';
 
 interface ShapePreviewProps {
-  /** The shape image to display */
-  shapeImage: HTMLImageElement;
+  /** The shape image to display (null for video guides) */
+  shapeImage: HTMLImageElement | null;
+  /** The video or camera guide to display (null for image guides) */
+  shapeVideo: HTMLVideoElement | null;
+  /** Preprocessed brightness map of the shape (null while not available) */
+  shapeData: number[][] | null;
+  /** Preprocessing settings, used to process video frames live */
+  shapeProcessing: ShapeProcessing;
   /** Callback when clear button is clicked */
   onClear: () => void;
 }
 
+/**
+ * Draws a brightness map into a canvas as a grayscale image
+ */
+function drawBrightnessMap(canvas: HTMLCanvasElement, shapeData: number[][]) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || shapeData.length === 0) return;
+
+  const height = shapeData.length;
+  const width = shapeData[0].length;
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const imageData = ctx.createImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const value = Math.round(shapeData[y][x] * 255);
+      imageData.data[i] = value;
+      imageData.data[i + 1] = value;
+      imageData.data[i + 2] = value;
+      imageData.data[i + 3] = 255;
+    }
+  }
+  ctx.putImageData(imageData, 0, 0);
+}
+
 /**
  * Overlay that shows the uploaded shape guide
+ * The processed view updates live as the preprocessing settings change
+ * (and, for video guides, as the video plays)
  */
-export function ShapePreview({ shapeImage, onClear }: ShapePreviewProps) {
+export function ShapePreview({ shapeImage, shapeVideo, shapeData, shapeProcessing, onClear }: ShapePreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const videoContainerRef = useRef<HTMLDivElement>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+
+  const isOriginal = showOriginal || !shapeData;
+
+  // Draw the brightness map as a grayscale image
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || shapeVideo || !shapeData) return;
+    drawBrightnessMap(canvas, shapeData);
+  }, [shapeData, shapeVideo, showOriginal]);
+
+  // Video guides: redraw the processed current frame while the preview is shown
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !shapeVideo || isOriginal) return;
+
+    let frameId = 0;
+    const draw = () => {
+      const videoData = getVideoShapeData(shapeVideo, shapeProcessing);
+      if (videoData) drawBrightnessMap(canvas, videoData);
+      frameId = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frameId);
+  }, [shapeVideo, shapeProcessing, isOriginal]);
+
+  // Video guides: show the video element itself in the original view
+  useEffect(() => {
+    const container = videoContainerRef.current;
+    if (!container || !shapeVideo || !isOriginal) return;
+
+    shapeVideo.className = 'w-24 h-24 object-contain bg-gray-700 rounded';
+    container.appendChild(shapeVideo);
+    return () => {
+      shapeVideo.remove();
+    };
+  }, [shapeVideo, isOriginal]);
+
+  const renderOriginal = () => {
+    if (shapeVideo) return <div ref={videoContainerRef} />;
+    return (
+      <img
+        src={shapeImage?.src}
+        alt="Shape guide"
+        className="w-24 h-24 object-contain bg-gray-700 rounded"
+      />
+    );
+  };
+
   return (
     <div className="absolute top-6 left-6 bg-gray-800 p-3 rounded-lg shadow-lg">
       <div className="flex items-center gap-2 mb-2">
@@ -27,12 +116,21 @@ export function ShapePreview({ shapeImage, onClear }: ShapePreviewProps) {
           <X size={16} />
         </button>
       </div>
-      <img 
-        src={shapeImage.src} 
-        alt="Shape guide" 
-        className="w-24 h-24 object-contain bg-gray-700 rounded"
-      />
+      {isOriginal ? renderOriginal() : (
+        <canvas
+          ref={canvasRef}
+          title="Processed shape guide"
+          className="w-24 h-24 object-contain bg-gray-700 rounded"
+        />
+      )}
+      {shapeData && (
+        <button
+          onClick={() => setShowOriginal(!showOriginal)}
+          className="mt-2 w-full text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          {showOriginal ? 'Show Processed' : 'Show Original'}
+        </button>
+      )}
     </div>
   );
 }
-
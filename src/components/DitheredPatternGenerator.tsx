@@ -5,13 +5,41 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { 
+  useBackendComparison,
   useCanvasAnimation, 
   useCanvasRenderer, 
-  useDrops, 
+  useCanvasSize,
+  useGeneratedGuides,
+  useGifExport,
   useImageUpload, 
-  useLayerManager 
+  useLayerManager,
+  useProjectFile,
+  useRandomSeeds,
+  useShareUrl,
+  useVideoGuides,
+  useVideoRecorder
 } from '@/hooks';
-import { symbolPresets, type SymbolPresetKey } from '@/utils/constants';
+import { DEFAULT_BLOOM_SETTINGS, DEFAULT_CANVAS_SIZE_SETTINGS, DEFAULT_MAX_LAYERS, symbolPresets, type SymbolPresetKey } from '@/utils/constants';
+import { getLoopPeriod, getPatterns } from '@/utils/patternRegistry';
+import { buildSvgDocument } from '@/utils/svgExport';
+import { withVideoShapeData } from '@/utils/videoGuide';
+import { pruneProceduralGuides, withProceduralShapeData, type ProceduralGuideSettings } from '@/utils/proceduralGuide';
+import { downloadBlob } from '@/utils/download';
+import { generateSeed } from '@/utils/random';
+import { createDefaultPostEffects } from '@/utils/postEffects';
+import { processShapePixels } from '@/utils/shapeProcessing';
+import type {
+  BloomSettings,
+  CanvasSizeSettings,
+  GifExportOptions,
+  Layer,
+  LayerConfig,
+  PostEffectSettings,
+  ProjectFile,
+  RenderBackend,
+  TextGuideOptions,
+  VideoExportOptions
+} from '@/types';
 import { DitherCanvas } from './DitherCanvas';
 import { ControlPanel } from './ControlPanel';
 
@@ -21,12 +49,30 @@ import { ControlPanel } from './ControlPanel';
  */
 export default function DitheredPatternGenerator() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  // Canvas size state
-  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  // Canvas size: follows the canvas area, or a fixed output resolution (saved with the project and in links)
+  const [canvasSizeSettings, setCanvasSizeSettings] = useState<CanvasSizeSettings>(DEFAULT_CANVAS_SIZE_SETTINGS);
+  const { canvasSize, previewSize, previewScale } = useCanvasSize({
+    containerRef: canvasContainerRef,
+    settings: canvasSizeSettings
+  });
   const [debouncedCellSize, setDebouncedCellSize] = useState(12);
   
+  // Project seed for reproducible randomness
+  const [seed, setSeed] = useState(() => generateSeed());
+
+  // How glyphs are drawn (session setting, not saved with the project)
+  const [renderBackend, setRenderBackend] = useState<RenderBackend>('text');
+
+  // Post-processing applied to the composited frame (saved with the project)
+  const [bloom, setBloom] = useState<BloomSettings>(DEFAULT_BLOOM_SETTINGS);
+  const [postEffects, setPostEffects] = useState<PostEffectSettings[]>(createDefaultPostEffects);
+  
+  // Layer limit, changeable in the Layers section
+  const [maxLayers, setMaxLayers] = useState(DEFAULT_MAX_LAYERS);
+
   // Layer management hook
   const {
     layers,
@@ -39,35 +85,134 @@ export default function DitheredPatternGenerator() {
     updateActiveLayerConfig,
     updateLayerProperty,
     reorderLayers,
-    toggleLayerExpand
-  } = useLayerManager();
+    toggleLayerExpand,
+    loadLayers,
+    historyVideos,
+    historyLabels,
+    historyIndex,
+    undo,
+    redo,
+    jumpToHistory
+  } = useLayerManager({ maxLayers });
 
-  // Drops and random seeds hook
-  const { dropsRef, randomSeedsRef } = useDrops({
+  // Random seeds hook
+  const { randomSeeds } = useRandomSeeds({
     width: canvasSize.width,
     height: canvasSize.height,
-    cellSize: debouncedCellSize
+    cellSize: debouncedCellSize,
+    seed
   });
 
   // Canvas renderer hook
-  const { renderFrame } = useCanvasRenderer({
+  const { renderFrame, renderFrameToCanvas, renderError } = useCanvasRenderer({
     canvasRef,
     canvasSize,
     layers,
-    drops: dropsRef.current,
-    randomSeeds: randomSeedsRef.current,
-    cellSize: activeLayer.config.cellSize
+    randomSeeds,
+    seed,
+    renderBackend,
+    bloom,
+    postEffects
+  });
+
+  // Backend comparison hook
+  const { comparison: backendComparison, compareBackends } = useBackendComparison({
+    canvasSize,
+    renderFrameToCanvas
   });
 
   // Animation hook
-  const { isAnimating, currentFrame, toggleAnimation, stepFrame } = useCanvasAnimation({
+  const {
+    isAnimating,
+    currentFrame,
+    toggleAnimation,
+    stepFrame,
+    seekFrame,
+    pause
+  } = useCanvasAnimation({
     animationSpeed: activeLayer.config.animationSpeed,
     onRenderFrame: renderFrame,
     startPlaying: false
   });
 
+  // Video and camera shape guides
+  const { videoError, loadVideoFile, startCamera, prepareVideoFrame } = useVideoGuides({
+    layers,
+    historyVideos,
+    animationSpeed: activeLayer.config.animationSpeed,
+    currentFrame,
+    isAnimating,
+    onFrameReady: renderFrame
+  });
+
+  // GIF export hook
+  const { gifProgress, exportGif } = useGifExport({
+    canvasSize,
+    layers,
+    animationSpeed: activeLayer.config.animationSpeed,
+    renderFrameToCanvas,
+    prepareFrame: prepareVideoFrame
+  });
+
+  // Video recorder hook
+  const visibleLayers = layers.filter(layer => layer.visible);
+  const loopPeriod = getLoopPeriod(
+    visibleLayers.map(layer => layer.config),
+    visibleLayers.some(layer => layer.shapeVideo !== null)
+  );
+  const { videoProgress, supportedFormats, recordVideo } = useVideoRecorder({
+    canvasSize,
+    renderFrameToCanvas,
+    seekFrame,
+    animationSpeed: activeLayer.config.animationSpeed,
+    loopPeriod,
+    prepareFrame: prepareVideoFrame
+  });
+
   // Image upload hook
-  const { handleImageUpload } = useImageUpload();
+  const { handleImageUpload, loadShapeImage } = useImageUpload();
+
+  // Text and SVG guide generator hook
+  const { guideError, createTextGuide, createSvgGuide } = useGeneratedGuides({ loadShapeImage });
+
+  // Restore a project opened from a file or a shared link
+  const handleProjectLoad = (project: ProjectFile, loadedLayers: Layer[]) => {
+    loadLayers(loadedLayers, project.activeLayerId);
+    setSeed(project.seed);
+    setBloom(project.bloom);
+    setPostEffects(project.postEffects);
+    setCanvasSizeSettings(project.canvasSizeSettings);
+  };
+
+  // Project file hook
+  const { projectError, saveProject, openProject } = useProjectFile({
+    layers,
+    activeLayerId,
+    seed,
+    bloom,
+    postEffects,
+    canvasSizeSettings,
+    canvasSize,
+    loadShapeImage,
+    onLoad: handleProjectLoad
+  });
+
+  // Shareable link hook
+  const { includeShapes, setIncludeShapes, shareError, copyShareLink } = useShareUrl({
+    layers,
+    activeLayerId,
+    seed,
+    bloom,
+    postEffects,
+    canvasSizeSettings,
+    loadShapeImage,
+    onLoad: handleProjectLoad
+  });
+
+  // Drop main-thread procedural guides (used by SVG export) of removed layers
+  useEffect(() => {
+    pruneProceduralGuides(layers);
+  }, [layers]);
 
   // Debounce cell size changes
   useEffect(() => {
@@ -78,56 +223,156 @@ export default function DitheredPatternGenerator() {
     return () => clearTimeout(timer);
   }, [activeLayer.config.cellSize]);
 
-  // Initialize canvas size
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  /**
+   * Set a layer's shape guide
+   * An uploaded guide replaces a procedural one; a replaced video or camera stays open
+   * while undo can bring it back (see useVideoGuides)
+   */
+  const setShapeSource = (
+    layerId: string,
+    shapeImage: HTMLImageElement | null,
+    shapeVideo: HTMLVideoElement | null,
+    pixels: ImageData | null,
+    configUpdate: Partial<LayerConfig> = {}
+  ) => {
+    // The layer may have been removed while its guide was loading
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer) return;
+    const config = {
+      ...layer.config,
+      ...(pixels ? { proceduralGuide: 'none' as const } : {}),
+      ...configUpdate
+    };
+    updateLayerProperty(layerId, {
+      config,
+      shapeImage,
+      shapeVideo,
+      shapePixels: pixels,
+      shapeData: pixels ? processShapePixels(pixels, config) : null
+    });
+  };
 
-    const width = canvas.offsetWidth;
-    const height = canvas.offsetHeight;
-    
-    canvas.width = width;
-    canvas.height = height;
-    
-    setCanvasSize({ width, height });
-  }, []);
+  // Guides that load asynchronously are applied with the layers current when they finish,
+  // so edits made in the meantime are kept
+  const setShapeSourceRef = useRef(setShapeSource);
+  setShapeSourceRef.current = setShapeSource;
 
   /**
-   * Handle image file upload for active layer
+   * Change the active layer's procedural guide
+   * Choosing one replaces an uploaded guide and fits the (square) guide to fill the grid
+   */
+  const onProceduralGuideChange = (updates: Partial<ProceduralGuideSettings>) => {
+    const isStarting = activeLayer.config.proceduralGuide === 'none'
+      && updates.proceduralGuide !== undefined
+      && updates.proceduralGuide !== 'none';
+    if (!isStarting) {
+      updateActiveLayerConfig(updates);
+    } else if (activeLayer.shapeImage || activeLayer.shapeVideo) {
+      setShapeSource(activeLayerId, null, null, null, { ...updates, shapeFit: 'cover' });
+    } else {
+      updateActiveLayerConfig({ ...updates, shapeFit: 'cover' });
+    }
+  };
+
+  /**
+   * Handle image or video file upload for active layer
    */
   const onImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    const layerId = activeLayerId;
 
-    handleImageUpload(file, (img, brightnessMap) => {
-      updateLayerProperty(activeLayerId, {
-        shapeImage: img,
-        shapeData: brightnessMap
+    if (file.type.startsWith('video/')) {
+      loadVideoFile(file).then((source) => {
+        if (source) setShapeSourceRef.current(layerId, null, source.video, source.pixels);
       });
+      return;
+    }
+
+    handleImageUpload(file, (img, pixels) => setShapeSourceRef.current(layerId, img, null, pixels));
+  };
+
+  /**
+   * Use the camera as the active layer's shape guide
+   */
+  const onUseCamera = () => {
+    const layerId = activeLayerId;
+    startCamera().then((source) => {
+      if (source) setShapeSourceRef.current(layerId, null, source.video, source.pixels);
     });
   };
 
   /**
-   * Clear shape guide for active layer
+   * Use rendered text as the active layer's shape guide
    */
-  const clearShape = useCallback(() => {
-    updateLayerProperty(activeLayerId, {
-      shapeImage: null,
-      shapeData: null
+  const onTextGuide = (options: TextGuideOptions) => {
+    const layerId = activeLayerId;
+    createTextGuide(options).then((guide) => {
+      if (guide) setShapeSourceRef.current(layerId, guide.img, null, guide.pixels);
     });
-  }, [activeLayerId, updateLayerProperty]);
+  };
 
   /**
-   * Download canvas as PNG
+   * Use SVG markup as the active layer's shape guide
+   */
+  const onSvgGuide = (markup: string) => {
+    const layerId = activeLayerId;
+    createSvgGuide(markup).then((guide) => {
+      if (guide) setShapeSourceRef.current(layerId, guide.img, null, guide.pixels);
+    });
+  };
+
+  /**
+   * Clear shape guide for active layer
+   */
+  const clearShape = () => setShapeSource(activeLayerId, null, null, null);
+
+  /**
+   * Download the current frame as PNG
+   * Rendered on the main thread, since the display canvas may be owned by the render worker
    */
   const downloadImage = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (canvasSize.width === 0 || canvasSize.height === 0) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = canvasSize.width;
+    canvas.height = canvasSize.height;
+    renderFrameToCanvas(canvas, currentFrame);
     const link = document.createElement('a');
     link.download = 'dithered-pattern.png';
     link.href = canvas.toDataURL();
     link.click();
-  }, []);
+  }, [canvasSize, renderFrameToCanvas, currentFrame]);
+
+  /**
+   * Download the current frame as an SVG document
+   */
+  const downloadSvg = useCallback(() => {
+    const svg = buildSvgDocument({
+      width: canvasSize.width,
+      height: canvasSize.height,
+      layers: layers.map(layer => withProceduralShapeData(withVideoShapeData(layer), currentFrame, seed)),
+      frame: currentFrame,
+      randomSeeds,
+      seed
+    });
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'dithered-pattern.svg');
+  }, [canvasSize, layers, currentFrame, randomSeeds, seed]);
+
+  /**
+   * Pause playback and export a GIF (video guides are stepped with the export)
+   */
+  const onExportGif = useCallback((options: GifExportOptions) => {
+    pause();
+    exportGif(options);
+  }, [pause, exportGif]);
+
+  /**
+   * Pause playback and record a video driven frame by frame
+   */
+  const onRecordVideo = useCallback((options: VideoExportOptions) => {
+    pause();
+    recordVideo(options);
+  }, [pause, recordVideo]);
 
   /**
    * Randomize active layer settings
@@ -135,8 +380,8 @@ export default function DitheredPatternGenerator() {
   const randomize = useCallback(() => {
     const presetKeys = Object.keys(symbolPresets).filter(k => k !== 'Custom');
     const randomPreset = presetKeys[Math.floor(Math.random() * presetKeys.length)] as SymbolPresetKey;
-    const patternTypes = ['rain', 'wave', 'static', 'glitch', 'pulse'];
-    const randomPattern = patternTypes[Math.floor(Math.random() * patternTypes.length)];
+    const patterns = getPatterns();
+    const randomPattern = patterns[Math.floor(Math.random() * patterns.length)].id;
     
     updateActiveLayerConfig({
       symbolSet: symbolPresets[randomPreset],
@@ -153,7 +398,15 @@ export default function DitheredPatternGenerator() {
       {/* Canvas */}
       <DitherCanvas
         canvasRef={canvasRef}
+        containerRef={canvasContainerRef}
+        previewSize={previewSize}
+        previewScale={previewScale}
         shapeImage={activeLayer.shapeImage}
+        shapeVideo={activeLayer.shapeVideo}
+        shapeData={activeLayer.shapeData}
+        shapeProcessing={activeLayer.config}
+        videoError={videoError}
+        renderError={renderError}
         isAnimating={isAnimating}
         fileInputRef={fileInputRef}
         onToggleAnimation={toggleAnimation}
@@ -162,6 +415,7 @@ export default function DitheredPatternGenerator() {
         onRandomize={randomize}
         onClearShape={clearShape}
         onImageUpload={onImageUpload}
+        onUseCamera={onUseCamera}
       />
 
       {/* Control Panel */}
@@ -170,6 +424,8 @@ export default function DitheredPatternGenerator() {
         activeLayerId={activeLayerId}
         activeLayer={activeLayer}
         expandedLayerIds={expandedLayerIds}
+        maxLayers={maxLayers}
+        onMaxLayersChange={setMaxLayers}
         currentFrame={currentFrame}
         isAnimating={isAnimating}
         onSetActiveLayer={setActiveLayerId}
@@ -179,6 +435,44 @@ export default function DitheredPatternGenerator() {
         onReorderLayers={reorderLayers}
         onToggleExpanded={toggleLayerExpand}
         onUpdateActiveLayerConfig={updateActiveLayerConfig}
+        guideError={guideError}
+        onTextGuide={onTextGuide}
+        onSvgGuide={onSvgGuide}
+        onProceduralGuideChange={onProceduralGuideChange}
+        gifProgress={gifProgress}
+        onExportGif={onExportGif}
+        onExportSvg={downloadSvg}
+        videoProgress={videoProgress}
+        videoFormats={supportedFormats}
+        loopPeriod={loopPeriod}
+        onRecordVideo={onRecordVideo}
+        seed={seed}
+        onSeedChange={setSeed}
+        onNewSeed={() => setSeed(generateSeed())}
+        projectError={projectError}
+        onSaveProject={saveProject}
+        onOpenProject={openProject}
+        includeShapesInLink={includeShapes}
+        onIncludeShapesInLinkChange={setIncludeShapes}
+        shareError={shareError}
+        onCopyLink={copyShareLink}
+        canvasSizeSettings={canvasSizeSettings}
+        onCanvasSizeSettingsChange={(updates) => setCanvasSizeSettings(current => ({ ...current, ...updates }))}
+        canvasSize={canvasSize}
+        previewScale={previewScale}
+        renderBackend={renderBackend}
+        onRenderBackendChange={setRenderBackend}
+        backendComparison={backendComparison}
+        onCompareBackends={() => compareBackends(currentFrame)}
+        bloom={bloom}
+        onBloomChange={(updates) => setBloom(current => ({ ...current, ...updates }))}
+        postEffects={postEffects}
+        onPostEffectsChange={setPostEffects}
+        historyLabels={historyLabels}
+        historyIndex={historyIndex}
+        onUndo={undo}
+        onRedo={redo}
+        onJumpToHistory={jumpToHistory}
       />
     </div>
   );
@@ -2,9 +2,16 @@
  * Custom hooks barrel export
  */
 
+export * from './useBackendComparison';
 export * from './useCanvasAnimation';
 export * from './useCanvasRenderer';
-export * from './useDrops';
+export * from './useCanvasSize';
+export * from './useGeneratedGuides';
+export * from './useGifExport';
 export * from './useImageUpload';
 export * from './useLayerManager';
-
+export * from './useProjectFile';
+export * from './useRandomSeeds';
+export * from './useShareUrl';
+export * from './useVideoGuides';
+export * from './useVideoRecorder';
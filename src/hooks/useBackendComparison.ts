@@ -0,0 +1,82 @@
+/**
+ * Custom hook for comparing rendering backends
+ * Renders the same frame with every backend, timing each and diffing it against the first
+ */
+
+import { useState, useCallback } from 'react';
+import type { BackendComparison, RenderBackend } from '@/types';
+import { RENDER_BACKENDS } from '@/utils/constants';
+import { compareImageData } from '@/utils/renderComparison';
+
+/**
+ * Parameters for the useBackendComparison hook
+ */
+interface UseBackendComparisonParams {
+  /** Canvas dimensions */
+  canvasSize: { width: number; height: number };
+  /** Renders a frame onto a canvas with the given backend */
+  renderFrameToCanvas: (target: HTMLCanvasElement, frame: number, backend?: RenderBackend) => void;
+}
+
+/**
+ * Return type for the useBackendComparison hook
+ */
+interface UseBackendComparisonReturn {
+  /** Results of the last comparison (null before the first one) */
+  comparison: BackendComparison[] | null;
+  /** Render a frame with every backend and compare the results */
+  compareBackends: (frame: number) => void;
+}
+
+/** Timed renders per backend (after one untimed warm-up render) */
+const TIMED_RENDERS = 3;
+
+/**
+ * Hook for checking that backends render the same image, and how fast
+ *
+ * @param params - Canvas size and render function
+ * @returns Comparison results and the compare function
+ *
+ * @example
+ * ```tsx
+ * const { comparison, compareBackends } = useBackendComparison({ canvasSize, renderFrameToCanvas });
+ * compareBackends(currentFrame);
+ * ```
+ */
+export function useBackendComparison(params: UseBackendComparisonParams): UseBackendComparisonReturn {
+  const { canvasSize, renderFrameToCanvas } = params;
+
+  const [comparison, setComparison] = useState<BackendComparison[] | null>(null);
+
+  const compareBackends = useCallback((frame: number) => {
+    const { width, height } = canvasSize;
+    if (width === 0 || height === 0) return;
+
+    let reference: ImageData | null = null;
+    const results = RENDER_BACKENDS.map(({ value: backend }): BackendComparison => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+
+      // The warm-up render fills caches such as the glyph atlas
+      renderFrameToCanvas(canvas, frame, backend);
+      const start = performance.now();
+      for (let i = 0; i < TIMED_RENDERS; i++) {
+        renderFrameToCanvas(canvas, frame, backend);
+      }
+      const renderTime = (performance.now() - start) / TIMED_RENDERS;
+
+      const image = canvas.getContext('2d', { willReadFrequently: true })?.getImageData(0, 0, width, height) ?? null;
+      reference ??= image;
+      const difference = image && reference ? compareImageData(reference, image) : 1;
+      return { backend, renderTime, difference };
+    });
+
+    setComparison(results);
+  }, [canvasSize, renderFrameToCanvas]);
+
+  return {
+    comparison,
+    compareBackends
+  };
+}
@@ -3,7 +3,7 @@
  * Provides play/pause functionality and frame stepping
  */
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 
 /**
  * Configuration options for the animation hook
@@ -29,6 +29,10 @@ interface UseCanvasAnimationReturn {
   toggleAnimation: () => void;
   /** Step forward or backward by one frame (direction: 1 or -1) */
   stepFrame: (direction: number) => void;
+  /** Jump to an exact (possibly fractional) frame and render it */
+  seekFrame: (frame: number) => void;
+  /** Stop playback if it is running */
+  pause: () => void;
 }
 
 /**
@@ -74,9 +78,27 @@ export function useCanvasAnimation(
     onRenderFrame(frameCounterRef.current);
   };
 
+  /**
+   * Jump to a specific frame (used to drive recording deterministically)
+   */
+  const seekFrame = useCallback((frame: number) => {
+    frameCounterRef.current = frame;
+    setCurrentFrame(Math.floor(frame));
+    onRenderFrame(frame);
+  }, [onRenderFrame]);
+
+  /**
+   * Stop playback
+   */
+  const pause = useCallback(() => {
+    setIsAnimating(false);
+  }, []);
+
   // Animation loop effect
   useEffect(() => {
     if (!isAnimating) {
+      // The displayed counter lags during playback; bring it up to date
+      setCurrentFrame(frameCounterRef.current);
       onRenderFrame(frameCounterRef.current);
       return;
     }
@@ -118,7 +140,9 @@ export function useCanvasAnimation(
     isAnimating,
     currentFrame,
     toggleAnimation,
-    stepFrame
+    stepFrame,
+    seekFrame,
+    pause
   };
 }
 
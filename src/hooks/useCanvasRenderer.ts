@@ -1,17 +1,14 @@
 /**
  * Custom hook for canvas rendering logic
- * Handles compositing multiple layers and rendering patterns
+ * Renders the display canvas in a worker when the browser supports OffscreenCanvas,
+ * and on the main thread otherwise; exports always render on the main thread
  */
 
-import { useCallback } from 'react';
-import type { Layer, Drop, RandomSeed } from '@/types';
-import {
-  renderRainPattern,
-  renderWavePattern,
-  renderStaticPattern,
-  renderGlitchPattern,
-  renderPulsePattern
-} from '@/utils/renderPatterns';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { BloomSettings, Layer, PostEffectSettings, RandomSeed, RenderBackend, RenderScene } from '@/types';
+import { createCompositor, type Compositor } from '@/utils/compositor';
+import { getRenderWorkerClient, type RenderWorkerClient, type RenderWorkerError } from '@/utils/renderWorkerClient';
+import { withVideoShapeData } from '@/utils/videoGuide';
 
 /**
  * Canvas size information
@@ -31,12 +28,16 @@ interface UseCanvasRendererParams {
   canvasSize: CanvasSize;
   /** Array of layers to render */
   layers: Layer[];
-  /** Rain drops for animation */
-  drops: Drop[];
   /** Pre-generated random seeds */
   randomSeeds: RandomSeed[];
-  /** Cell size for drop updates */
-  cellSize: number;
+  /** Project seed (drives seeded animation such as rain drops) */
+  seed: number;
+  /** How glyphs are drawn */
+  renderBackend: RenderBackend;
+  /** Bloom applied after compositing */
+  bloom: BloomSettings;
+  /** Post-effect stack applied after bloom */
+  postEffects: PostEffectSettings[];
 }
 
 /**
@@ -45,6 +46,10 @@ interface UseCanvasRendererParams {
 interface UseCanvasRendererReturn {
   /** Render a single frame to the canvas */
   renderFrame: (frame: number) => void;
+  /** Render a frame to any canvas (e.g. for export), optionally with another backend */
+  renderFrameToCanvas: (target: HTMLCanvasElement, frame: number, backend?: RenderBackend) => void;
+  /** Why the render worker failed, or the last frame it could not draw (null while it works or is not used) */
+  renderError: string | null;
 }
 
 /**
@@ -59,9 +64,11 @@ interface UseCanvasRendererReturn {
  *   canvasRef,
  *   canvasSize,
  *   layers,
- *   drops,
  *   randomSeeds,
- *   cellSize: 12
+ *   seed: 1234,
+ *   renderBackend: 'atlas',
+ *   bloom,
+ *   postEffects
  * });
  * 
  * // Render frame 100
@@ -71,116 +78,84 @@ interface UseCanvasRendererReturn {
 export function useCanvasRenderer(
   params: UseCanvasRendererParams
 ): UseCanvasRendererReturn {
-  const { canvasRef, canvasSize, layers, drops, randomSeeds, cellSize } = params;
+  const { canvasRef, canvasSize, layers, randomSeeds, seed, renderBackend, bloom, postEffects } = params;
+
+  // Main-thread compositor for exports
+  const compositorRef = useRef<Compositor | null>(null);
+  compositorRef.current ??= createCompositor(() => document.createElement('canvas'));
+  // Main-thread compositor for the display when workers are unavailable; it keeps playback
+  // state between frames, which exports asking for other frames would otherwise reset
+  const displayCompositorRef = useRef<Compositor | null>(null);
+  // Worker rendering the display canvas (null until mounted, or if unsupported)
+  const workerClientRef = useRef<RenderWorkerClient | null>(null);
+  // Set when the worker fails. A worker that failed before taking over the canvas leaves
+  // it to the main thread, and the changed renderFrame redraws the frame there; a canvas
+  // the worker already owned stays blank (its client ignores further frames)
+  const [workerError, setWorkerError] = useState<RenderWorkerError | null>(null);
+  const handleWorkerError = useCallback((error: RenderWorkerError) => {
+    workerClientRef.current = null;
+    setWorkerError(error);
+  }, []);
+  // Last frame the worker could not draw; cleared by the next frame that draws
+  const [frameError, setFrameError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (canvas) workerClientRef.current = getRenderWorkerClient(canvas, handleWorkerError, setFrameError);
+  }, [canvasRef, handleWorkerError]);
 
   /**
-   * Renders a single layer to an offscreen canvas
+   * Scene of the current layers; video guides are read on the main thread
    */
-  const renderLayerToCanvas = useCallback((
-    layer: Layer,
-    canvas: HTMLCanvasElement,
-    frame: number
-  ) => {
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const { width, height } = canvasSize;
-    if (width === 0 || height === 0) return;
-
-    const layerConfig = layer.config;
-    
-    const cols = Math.floor(width / layerConfig.cellSize);
-    const rows = Math.floor(height / layerConfig.cellSize);
+  const getScene = useCallback((): RenderScene => ({
+    width: canvasSize.width,
+    height: canvasSize.height,
+    layers: layers.map(withVideoShapeData),
+    randomSeeds,
+    seed,
+    backend: renderBackend,
+    bloom,
+    postEffects
+  }), [canvasSize, layers, randomSeeds, seed, renderBackend, bloom, postEffects]);
 
-    // Clear with transparent background (layers composite)
-    ctx.clearRect(0, 0, width, height);
-
-    ctx.font = `${layerConfig.cellSize - 2}px monospace`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-
-    // Prepare common parameters for pattern rendering
-    const renderParams = {
-      ctx,
-      layer,
-      cols,
-      rows,
-      cellSize: layerConfig.cellSize,
-      frame,
-      randomSeeds
-    };
-
-    // Render based on pattern type
-    switch (layerConfig.pattern) {
-      case 'rain':
-        renderRainPattern(renderParams, drops);
-        break;
-      case 'wave':
-        renderWavePattern(renderParams);
-        break;
-      case 'static':
-        renderStaticPattern(renderParams);
-        break;
-      case 'glitch':
-        renderGlitchPattern(renderParams);
-        break;
-      case 'pulse':
-        renderPulsePattern(renderParams);
-        break;
-    }
-  }, [canvasSize, drops, randomSeeds]);
+  /**
+   * Composites all visible layers onto a target canvas on the main thread
+   * Output depends only on the frame number, seed and layer settings
+   */
+  const renderFrameToCanvas = useCallback((
+    target: HTMLCanvasElement,
+    frame: number,
+    backend?: RenderBackend
+  ) => {
+    const scene = getScene();
+    compositorRef.current?.renderFrame(target, { ...scene, backend: backend ?? scene.backend }, frame);
+  }, [getScene]);
 
   /**
-   * Main render function - composites all visible layers
+   * Main render function - composites all visible layers onto the display canvas
    */
   const renderFrame = useCallback((frame: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    const { width, height } = canvasSize;
-    if (width === 0 || height === 0) return;
-
-    // Clear main canvas with the bottom layer's background color (or default)
-    const bottomLayer = layers[0];
-    ctx.fillStyle = bottomLayer?.config.bgColor || '#0a0e27';
-    ctx.fillRect(0, 0, width, height);
-
-    // Create offscreen canvases for each visible layer and composite them
-    const visibleLayers = layers.filter(layer => layer.visible);
-    
-    visibleLayers.forEach((layer) => {
-      // Create an offscreen canvas for this layer
-      const offscreenCanvas = document.createElement('canvas');
-      offscreenCanvas.width = width;
-      offscreenCanvas.height = height;
-      
-      // Render layer to offscreen canvas
-      renderLayerToCanvas(layer, offscreenCanvas, frame);
-      
-      // Composite onto main canvas with layer opacity
-      ctx.globalAlpha = layer.opacity;
-      ctx.drawImage(offscreenCanvas, 0, 0);
-      ctx.globalAlpha = 1; // Reset
-    });
+    const workerClient = workerClientRef.current ?? getRenderWorkerClient(canvas, handleWorkerError, setFrameError);
+    workerClientRef.current = workerClient;
+    if (workerClient) {
+      workerClient.render(getScene(), frame);
+      return;
+    }
 
-    // Update drops for rain animation (shared across layers)
-    drops.forEach((drop) => {
-      const cols = Math.floor(width / cellSize);
-      const rows = Math.floor(height / cellSize);
-      
-      drop.y += drop.speed * 0.3;
-      if (drop.y > rows + drop.length) {
-        drop.y = -drop.length;
-        drop.speed = 0.5 + Math.random() * 1.5;
-      }
-    });
-  }, [canvasRef, canvasSize, layers, drops, cellSize, renderLayerToCanvas]);
+    if (canvas.width !== canvasSize.width || canvas.height !== canvasSize.height) {
+      canvas.width = canvasSize.width;
+      canvas.height = canvasSize.height;
+    }
+    displayCompositorRef.current ??= createCompositor(() => document.createElement('canvas'), { playback: true });
+    displayCompositorRef.current.renderFrame(canvas, getScene(), frame);
+  }, [canvasRef, canvasSize, getScene, handleWorkerError, workerError]);
 
   return {
-    renderFrame
+    renderFrame,
+    renderFrameToCanvas,
+    renderError: workerError?.message ?? frameError
   };
 }
-
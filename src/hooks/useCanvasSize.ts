@@ -0,0 +1,89 @@
+/**
+ * Custom hook for the canvas size
+ * Follows the canvas area with a ResizeObserver, or uses a fixed output resolution
+ * shown scaled to fit the area
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import type { CanvasSizeSettings } from '@/types';
+import { fitPreviewSize, resolveCanvasSize, type CanvasSize } from '@/utils/canvasSize';
+
+/**
+ * Parameters for the useCanvasSize hook
+ */
+interface UseCanvasSizeParams {
+  /** Element the canvas is shown in (its content box is the available area) */
+  containerRef: React.RefObject<HTMLElement>;
+  /** Responsive or fixed size settings */
+  settings: CanvasSizeSettings;
+}
+
+/**
+ * Return type for the useCanvasSize hook
+ */
+interface UseCanvasSizeReturn {
+  /** Size frames are rendered and exported at */
+  canvasSize: CanvasSize;
+  /** Size the canvas is displayed at in CSS pixels */
+  previewSize: CanvasSize;
+  /** Display size relative to the rendered size (1 = pixel for pixel) */
+  previewScale: number;
+}
+
+/** Resizes settle for this long before the canvas (and its seeds) are rebuilt */
+const RESIZE_DEBOUNCE_MS = 150;
+
+/**
+ * Hook for sizing the canvas
+ * The first measurement applies immediately; later resizes are debounced, since every
+ * responsive size change rebuilds the random seeds and reallocates the canvases
+ *
+ * @param params - Container element and size settings
+ * @returns Render size and preview size
+ *
+ * @example
+ * ```tsx
+ * const { canvasSize, previewSize } = useCanvasSize({
+ *   containerRef,
+ *   settings: { mode: 'fixed', preset: '1080p', width: 1920, height: 1080 }
+ * });
+ * ```
+ */
+export function useCanvasSize(params: UseCanvasSizeParams): UseCanvasSizeReturn {
+  const { containerRef, settings } = params;
+  const [available, setAvailable] = useState<CanvasSize>({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      const width = Math.floor(container.clientWidth);
+      const height = Math.floor(container.clientHeight);
+      // Keep the same object when nothing changed, so nothing re-renders
+      setAvailable(current => (current.width === width && current.height === height ? current : { width, height }));
+    };
+    measure();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const observer = new ResizeObserver(() => {
+      clearTimeout(timer);
+      timer = setTimeout(measure, RESIZE_DEBOUNCE_MS);
+    });
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      clearTimeout(timer);
+    };
+  }, [containerRef]);
+
+  const canvasSize = useMemo(() => resolveCanvasSize(settings, available), [settings, available]);
+  const preview = useMemo(() => fitPreviewSize(canvasSize, available), [canvasSize, available]);
+
+  return {
+    canvasSize,
+    previewSize: { width: preview.width, height: preview.height },
+    previewScale: preview.scale
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Custom hook for shape guides generated from text and SVG markup
+ * Renders the source to an image and reads its pixels like an uploaded guide
+ */
+
+import { useState, useCallback } from 'react';
+import type { TextGuideOptions } from '@/types';
+import { GuideSourceError, rasterizeSvgGuide, renderTextGuide } from '@/utils/generatedGuide';
+import type { ShapeImageLoader } from '@/utils/projectFile';
+
+/**
+ * Parameters for the useGeneratedGuides hook
+ */
+interface UseGeneratedGuidesParams {
+  /** Loads an image URL and reads its pixels */
+  loadShapeImage: ShapeImageLoader;
+}
+
+/**
+ * A generated guide image and its pixels
+ */
+interface GeneratedGuide {
+  img: HTMLImageElement;
+  pixels: ImageData;
+}
+
+/**
+ * Return type for the useGeneratedGuides hook
+ */
+interface UseGeneratedGuidesReturn {
+  /** Message describing why the last guide could not be generated (null if fine) */
+  guideError: string | null;
+  /** Render text into a guide (null on failure, with guideError set) */
+  createTextGuide: (options: TextGuideOptions) => Promise<GeneratedGuide | null>;
+  /** Rasterize SVG markup into a guide (null on failure, with guideError set) */
+  createSvgGuide: (markup: string) => Promise<GeneratedGuide | null>;
+}
+
+/**
+ * Hook for generating shape guides in the app
+ *
+ * @param params - Image loader
+ * @returns Generators and the last error
+ *
+ * @example
+ * ```tsx
+ * const { createTextGuide } = useGeneratedGuides({ loadShapeImage });
+ * const guide = await createTextGuide(textOptions);
+ * if (guide) updateLayer({ shapeImage: guide.img, shapePixels: guide.pixels });
+ * ```
+ */
+export function useGeneratedGuides(params: UseGeneratedGuidesParams): UseGeneratedGuidesReturn {
+  const { loadShapeImage } = params;
+
+  const [guideError, setGuideError] = useState<string | null>(null);
+
+  const createTextGuide = useCallback(async (options: TextGuideOptions) => {
+    try {
+      const src = renderTextGuide(options);
+      if (!src) {
+        setGuideError('Enter some text to render');
+        return null;
+      }
+      const guide = await loadShapeImage(src);
+      setGuideError(null);
+      return guide;
+    } catch {
+      setGuideError('Text could not be rendered into a guide');
+      return null;
+    }
+  }, [loadShapeImage]);
+
+  const createSvgGuide = useCallback(async (markup: string) => {
+    try {
+      const guide = await loadShapeImage(await rasterizeSvgGuide(markup));
+      setGuideError(null);
+      return guide;
+    } catch (error) {
+      // Loading or reading the rasterized image can fail too (e.g. a tainted canvas)
+      setGuideError(error instanceof GuideSourceError ? error.message : 'SVG could not be rendered into a guide');
+      return null;
+    }
+  }, [loadShapeImage]);
+
+  return {
+    guideError,
+    createTextGuide,
+    createSvgGuide
+  };
+}
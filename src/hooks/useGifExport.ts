@@ -0,0 +1,110 @@
+/**
+ * Custom hook for exporting a frame range as an animated GIF
+ * Renders each frame offscreen so the export is independent of playback timing
+ */
+
+import { useState, useCallback } from 'react';
+import type { Layer, GifExportOptions } from '@/types';
+import { buildLayerPalette } from '@/utils/colorUtils';
+import { downloadBlob } from '@/utils/download';
+import { createGifWriter, mapToPalette } from '@/utils/gifEncoder';
+
+/**
+ * Parameters for the useGifExport hook
+ */
+interface UseGifExportParams {
+  /** Canvas dimensions */
+  canvasSize: { width: number; height: number };
+  /** Layers to export (used for the palette) */
+  layers: Layer[];
+  /** Animation speed in milliseconds per frame */
+  animationSpeed: number;
+  /** Renders a frame to an arbitrary canvas */
+  renderFrameToCanvas: (target: HTMLCanvasElement, frame: number) => void;
+  /** Waits until frame-dependent sources (e.g. video guides) show the given frame */
+  prepareFrame?: (frame: number) => Promise<void>;
+}
+
+/**
+ * Return type for the useGifExport hook
+ */
+interface UseGifExportReturn {
+  /** Export progress (0-1) while exporting, null otherwise */
+  gifProgress: number | null;
+  /** Render the frame range and download it as a GIF */
+  exportGif: (options: GifExportOptions) => Promise<void>;
+}
+
+/**
+ * Yields to the browser so progress updates can paint between frames
+ */
+function nextTick(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Hook for exporting animated GIFs
+ *
+ * @param params - Export dependencies
+ * @returns Export function and progress
+ *
+ * @example
+ * ```tsx
+ * const { exportGif, gifProgress } = useGifExport({
+ *   canvasSize,
+ *   layers,
+ *   animationSpeed: 50,
+ *   renderFrameToCanvas
+ * });
+ *
+ * exportGif({ startFrame: 0, endFrame: 60, frameStep: 1, loopCount: 0 });
+ * ```
+ */
+export function useGifExport(params: UseGifExportParams): UseGifExportReturn {
+  const { canvasSize, layers, animationSpeed, renderFrameToCanvas, prepareFrame } = params;
+
+  const [gifProgress, setGifProgress] = useState<number | null>(null);
+
+  const exportGif = useCallback(async (options: GifExportOptions) => {
+    const { width, height } = canvasSize;
+    if (width === 0 || height === 0) return;
+
+    const frameStep = Math.max(1, Math.floor(options.frameStep));
+    const startFrame = Math.min(options.startFrame, options.endFrame);
+    const endFrame = Math.max(options.startFrame, options.endFrame);
+    const frameCount = Math.floor((endFrame - startFrame) / frameStep) + 1;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+
+    const palette = buildLayerPalette(layers);
+    const colorCache = new Map<number, number>();
+    const writer = createGifWriter(width, height, palette, options.loopCount);
+
+    setGifProgress(0);
+    try {
+      for (let i = 0; i < frameCount; i++) {
+        const frame = startFrame + i * frameStep;
+        await prepareFrame?.(frame);
+        renderFrameToCanvas(canvas, frame);
+        const { data } = ctx.getImageData(0, 0, width, height);
+        writer.addFrame(mapToPalette(data, palette, colorCache), animationSpeed * frameStep);
+
+        setGifProgress((i + 1) / frameCount);
+        await nextTick();
+      }
+
+      downloadBlob(writer.finish(), 'dithered-pattern.gif');
+    } finally {
+      setGifProgress(null);
+    }
+  }, [canvasSize, layers, animationSpeed, renderFrameToCanvas, prepareFrame]);
+
+  return {
+    gifProgress,
+    exportGif
+  };
+}
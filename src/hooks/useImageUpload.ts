@@ -1,10 +1,13 @@
 /**
  * Custom hook for handling image uploads and processing
- * Converts uploaded images into brightness maps for shape-guided patterns
+ * Reads uploaded images into downscaled pixels for the shape guide preprocessing
  */
 
 import { useCallback } from 'react';
 
+/** Longest side of the stored shape pixels */
+const SHAPE_MAX_SIZE = 512;
+
 /**
  * Return type for the useImageUpload hook
  */
@@ -12,12 +15,14 @@ interface UseImageUploadReturn {
   /** Process an uploaded image file */
   handleImageUpload: (
     file: File,
-    onComplete: (img: HTMLImageElement, brightnessMap: number[][]) => void
+    onComplete: (img: HTMLImageElement, pixels: ImageData) => void
   ) => void;
+  /** Load an image from a URL (e.g. a saved data URL) and read its pixels */
+  loadShapeImage: (src: string) => Promise<{ img: HTMLImageElement; pixels: ImageData }>;
 }
 
 /**
- * Hook for handling image uploads and converting them to brightness maps
+ * Hook for handling image uploads and reading their pixels
  * 
  * @returns Image upload handler
  * 
@@ -28,8 +33,8 @@ interface UseImageUploadReturn {
  * const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
  *   const file = e.target.files?.[0];
  *   if (file) {
- *     handleImageUpload(file, (img, brightnessMap) => {
- *       updateLayer({ shapeImage: img, shapeData: brightnessMap });
+ *     handleImageUpload(file, (img, pixels) => {
+ *       updateLayer({ shapeImage: img, shapePixels: pixels, shapeData: processShapePixels(pixels, config) });
  *     });
  *   }
  * };
@@ -37,43 +42,23 @@ interface UseImageUploadReturn {
  */
 export function useImageUpload(): UseImageUploadReturn {
   /**
-   * Process an uploaded image into a brightness map
+   * Read an uploaded image into downscaled pixels
    */
   const processShapeImage = useCallback((
     img: HTMLImageElement,
-    onComplete: (img: HTMLImageElement, brightnessMap: number[][]) => void
+    onComplete: (img: HTMLImageElement, pixels: ImageData) => void
   ) => {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
-    // Scale image down to reasonable size for performance
-    const maxSize = 200;
-    const scale = Math.min(maxSize / img.width, maxSize / img.height);
-    canvas.width = img.width * scale;
-    canvas.height = img.height * scale;
+    // Keep enough resolution for area-averaged sampling, but cap it for memory
+    const scale = Math.min(1, SHAPE_MAX_SIZE / img.width, SHAPE_MAX_SIZE / img.height);
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
     
     ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    
-    // Convert to brightness map
-    const brightnessMap = [];
-    for (let y = 0; y < canvas.height; y++) {
-      const row = [];
-      for (let x = 0; x < canvas.width; x++) {
-        const i = (y * canvas.width + x) * 4;
-        const r = imageData.data[i];
-        const g = imageData.data[i + 1];
-        const b = imageData.data[i + 2];
-        const a = imageData.data[i + 3];
-        // Calculate brightness (0-1), transparent pixels = 0
-        const brightness = a === 0 ? 0 : (r + g + b) / 3 / 255;
-        row.push(brightness);
-      }
-      brightnessMap.push(row);
-    }
-    
-    onComplete(img, brightnessMap);
+    onComplete(img, ctx.getImageData(0, 0, canvas.width, canvas.height));
   }, []);
 
   /**
@@ -81,7 +66,7 @@ export function useImageUpload(): UseImageUploadReturn {
    */
   const handleImageUpload = useCallback((
     file: File,
-    onComplete: (img: HTMLImageElement, brightnessMap: number[][]) => void
+    onComplete: (img: HTMLImageElement, pixels: ImageData) => void
   ) => {
     const reader = new FileReader();
     reader.onload = (event) => {
@@ -94,8 +79,25 @@ export function useImageUpload(): UseImageUploadReturn {
     reader.readAsDataURL(file);
   }, [processShapeImage]);
 
+  /**
+   * Load an image from a URL and read its pixels
+   */
+  const loadShapeImage = useCallback((src: string) => {
+    return new Promise<{ img: HTMLImageElement; pixels: ImageData }>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => {
+        processShapeImage(img, (loadedImg, pixels) => {
+          resolve({ img: loadedImg, pixels });
+        });
+      };
+      img.onerror = () => reject(new Error('Could not decode shape image'));
+      img.src = src;
+    });
+  }, [processShapeImage]);
+
   return {
-    handleImageUpload
+    handleImageUpload,
+    loadShapeImage
   };
 }
 
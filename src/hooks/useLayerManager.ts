@@ -1,11 +1,43 @@
 /**
  * Custom hook for managing layers state and operations
- * Handles layer CRUD, reordering, and active layer selection
+ * Handles layer CRUD, reordering, active layer selection and undo/redo history
  */
 
-import { useState } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import type { Layer, LayerConfig } from '@/types';
-import { DEFAULT_LAYER_CONFIG } from '@/utils/constants';
+import { DEFAULT_LAYER_CONFIG, DEFAULT_MAX_LAYERS } from '@/utils/constants';
+import { processShapePixels, SHAPE_PROCESSING_KEYS } from '@/utils/shapeProcessing';
+
+/** Maximum number of undo steps kept */
+const MAX_HISTORY = 100;
+
+/**
+ * Snapshot of the layers after an edit
+ */
+interface HistoryEntry {
+  /** Description shown in the history list */
+  label: string;
+  /** Layers after the edit */
+  layers: Layer[];
+  /** Active layer after the edit */
+  activeLayerId: string;
+}
+
+/**
+ * Undo stack: entries up to and including index are applied, later ones can be redone
+ */
+interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+/**
+ * Options for the useLayerManager hook
+ */
+interface UseLayerManagerOptions {
+  /** Maximum number of layers (defaults to DEFAULT_MAX_LAYERS) */
+  maxLayers?: number;
+}
 
 /**
  * Return type for the useLayerManager hook
@@ -21,7 +53,9 @@ interface UseLayerManagerReturn {
   expandedLayerIds: Set<string>;
   /** Set the active layer by ID */
   setActiveLayerId: (id: string) => void;
-  /** Add a new layer (max 3 layers) */
+  /** Maximum number of layers */
+  maxLayers: number;
+  /** Add a new layer (up to maxLayers) */
   addLayer: () => void;
   /** Remove a layer by ID (min 1 layer) */
   removeLayer: (id: string) => void;
@@ -33,6 +67,20 @@ interface UseLayerManagerReturn {
   reorderLayers: (fromIndex: number, toIndex: number) => void;
   /** Toggle a layer's expanded state in the UI */
   toggleLayerExpand: (layerId: string) => void;
+  /** Replace all layers (e.g. when opening a project), keeping at most maxLayers */
+  loadLayers: (layers: Layer[], activeLayerId: string) => void;
+  /** Video and camera guides used by any history entry (the media must stay open for undo) */
+  historyVideos: HTMLVideoElement[];
+  /** Labels of all history entries, oldest first */
+  historyLabels: string[];
+  /** Index of the current entry in historyLabels */
+  historyIndex: number;
+  /** Step back one edit */
+  undo: () => void;
+  /** Re-apply the next undone edit */
+  redo: () => void;
+  /** Jump to any entry in the history */
+  jumpToHistory: (index: number) => void;
 }
 
 /**
@@ -42,9 +90,32 @@ function createDefaultLayerConfig(): LayerConfig {
   return { ...DEFAULT_LAYER_CONFIG };
 }
 
+/**
+ * Turns property names into a readable list, e.g. ['glowIntensity'] -> 'glow intensity'
+ */
+function describeKeys(keys: string[]): string {
+  if (keys.length > 2) return `${keys.length} settings`;
+  return keys.map(key => key.replace(/([A-Z])/g, ' $1').toLowerCase()).join(', ');
+}
+
+/**
+ * Whether an element handles Ctrl+Z itself (text editing)
+ */
+function isTextField(target: EventTarget | null): boolean {
+  if (target instanceof HTMLTextAreaElement) return true;
+  if (!(target instanceof HTMLInputElement)) return false;
+  return !['range', 'checkbox', 'radio', 'color', 'file', 'button'].includes(target.type);
+}
+
 /**
  * Hook for managing layers with CRUD operations and state
+ *
+ * Every edit is recorded in an undo history (Ctrl+Z / Ctrl+Shift+Z).
+ * Repeated edits of the same setting, such as a slider drag, color picker
+ * session or typing a name, are merged into one entry until the pointer is
+ * released or the control fires its native `change` event.
  * 
+ * @param options - Optional limits
  * @returns Layer management interface
  * 
  * @example
@@ -55,43 +126,143 @@ function createDefaultLayerConfig(): LayerConfig {
  *   addLayer,
  *   removeLayer,
  *   updateActiveLayerConfig
- * } = useLayerManager();
+ * } = useLayerManager({ maxLayers: 8 });
  * ```
  */
-export function useLayerManager(): UseLayerManagerReturn {
+export function useLayerManager(options: UseLayerManagerOptions = {}): UseLayerManagerReturn {
+  const { maxLayers = DEFAULT_MAX_LAYERS } = options;
+
   // Initialize with one default layer
-  const [layers, setLayers] = useState<Layer[]>([{
-    id: 'layer-1',
-    name: 'Layer 1',
-    visible: true,
-    opacity: 1,
-    config: createDefaultLayerConfig(),
-    shapeImage: null,
-    shapeData: null
-  }]);
+  const [history, setHistory] = useState<HistoryState>(() => ({
+    entries: [{
+      label: 'Initial state',
+      layers: [{
+        id: 'layer-1',
+        name: 'Layer 1',
+        visible: true,
+        opacity: 1,
+        blendMode: 'source-over',
+        maskMode: 'none',
+        maskInvert: false,
+        config: createDefaultLayerConfig(),
+        shapeImage: null,
+        shapeVideo: null,
+        shapePixels: null,
+        shapeData: null
+      }],
+      activeLayerId: 'layer-1'
+    }],
+    index: 0
+  }));
+  const layers = history.entries[history.index].layers;
+
+  const historyVideos = useMemo(() => {
+    const videos = new Set<HTMLVideoElement>();
+    history.entries.forEach(entry => entry.layers.forEach((layer) => {
+      if (layer.shapeVideo) videos.add(layer.shapeVideo);
+    }));
+    return Array.from(videos);
+  }, [history.entries]);
 
   const [activeLayerId, setActiveLayerId] = useState<string>('layer-1');
   const [expandedLayerIds, setExpandedLayerIds] = useState<Set<string>>(new Set(['layer-1']));
+
+  // Merge key of the last edit; cleared when the edit is finished
+  const mergeKeyRef = useRef<string | null>(null);
   
   // Get active layer (with fallback to first layer)
   const activeLayer = layers.find(l => l.id === activeLayerId) || layers[0];
 
   /**
-   * Add a new layer (maximum 3 layers)
+   * Record new layers in the history
+   * Edits with the same merge key as the previous, unfinished edit replace it
+   */
+  const commit = (label: string, newLayers: Layer[], newActiveLayerId = activeLayerId, mergeKey?: string) => {
+    const merge = mergeKey !== undefined && mergeKey === mergeKeyRef.current;
+    mergeKeyRef.current = mergeKey ?? null;
+
+    setHistory(({ entries, index }) => {
+      const entry = { label, layers: newLayers, activeLayerId: newActiveLayerId };
+      if (merge && index > 0) {
+        return { entries: [...entries.slice(0, index), entry], index };
+      }
+      const kept = entries.slice(Math.max(0, index + 2 - MAX_HISTORY), index + 1);
+      return { entries: [...kept, entry], index: kept.length };
+    });
+  };
+
+  /**
+   * Move to a history entry, restoring its active layer
+   */
+  const jumpToHistory = (targetIndex: number) => {
+    if (targetIndex < 0 || targetIndex >= history.entries.length) return;
+    mergeKeyRef.current = null;
+    setHistory({ ...history, index: targetIndex });
+    setActiveLayerId(history.entries[targetIndex].activeLayerId);
+  };
+
+  const undo = () => jumpToHistory(history.index - 1);
+  const redo = () => jumpToHistory(history.index + 1);
+
+  // Finish the current edit when a control commits its value or a button is released
+  useEffect(() => {
+    const finishEdit = () => {
+      mergeKeyRef.current = null;
+    };
+    const finishKeyboardEdit = (e: KeyboardEvent) => {
+      // Typing in a text field keeps merging until the field fires `change`
+      if (!isTextField(e.target)) finishEdit();
+    };
+    document.addEventListener('change', finishEdit, true);
+    document.addEventListener('pointerup', finishEdit, true);
+    document.addEventListener('keyup', finishKeyboardEdit, true);
+    return () => {
+      document.removeEventListener('change', finishEdit, true);
+      document.removeEventListener('pointerup', finishEdit, true);
+      document.removeEventListener('keyup', finishKeyboardEdit, true);
+    };
+  }, []);
+
+  // Keyboard shortcuts; the latest undo/redo are read through a ref
+  const shortcutsRef = useRef({ undo, redo });
+  shortcutsRef.current = { undo, redo };
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        shortcutsRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        shortcutsRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  /**
+   * Add a new layer (up to maxLayers)
    */
   const addLayer = () => {
-    if (layers.length >= 3) return;
+    if (layers.length >= maxLayers) return;
     const newId = `layer-${Date.now()}`;
     const newLayer: Layer = {
       id: newId,
       name: `Layer ${layers.length + 1}`,
       visible: true,
       opacity: 1,
+      blendMode: 'source-over',
+      maskMode: 'none',
+      maskInvert: false,
       config: createDefaultLayerConfig(),
       shapeImage: null,
+      shapeVideo: null,
+      shapePixels: null,
       shapeData: null
     };
-    setLayers([...layers, newLayer]);
+    commit(`Add ${newLayer.name}`, [...layers, newLayer], newId);
     setActiveLayerId(newId);
     setExpandedLayerIds(new Set([...expandedLayerIds, newId]));
   };
@@ -101,11 +272,11 @@ export function useLayerManager(): UseLayerManagerReturn {
    */
   const removeLayer = (layerId: string) => {
     if (layers.length === 1) return; // Keep at least one layer
+    const removed = layers.find(l => l.id === layerId);
     const newLayers = layers.filter(l => l.id !== layerId);
-    setLayers(newLayers);
-    if (activeLayerId === layerId) {
-      setActiveLayerId(newLayers[0].id);
-    }
+    const newActiveId = activeLayerId === layerId ? newLayers[0].id : activeLayerId;
+    commit(`Remove ${removed?.name ?? 'layer'}`, newLayers, newActiveId);
+    setActiveLayerId(newActiveId);
     const newExpanded = new Set(expandedLayerIds);
     newExpanded.delete(layerId);
     setExpandedLayerIds(newExpanded);
@@ -113,32 +284,55 @@ export function useLayerManager(): UseLayerManagerReturn {
 
   /**
    * Update the active layer's configuration
+   * Preprocessing changes re-derive the shape guide's brightness map
    */
   const updateActiveLayerConfig = (configUpdate: Partial<LayerConfig>) => {
-    setLayers(layers.map(layer => 
-      layer.id === activeLayerId 
-        ? { ...layer, config: { ...layer.config, ...configUpdate } }
-        : layer
-    ));
+    const keys = Object.keys(configUpdate).sort();
+    const reprocess = SHAPE_PROCESSING_KEYS.some(key => key in configUpdate);
+    commit(
+      `${activeLayer.name}: ${describeKeys(keys)}`,
+      layers.map((layer) => {
+        if (layer.id !== activeLayerId) return layer;
+        const config = { ...layer.config, ...configUpdate };
+        return reprocess && layer.shapePixels
+          ? { ...layer, config, shapeData: processShapePixels(layer.shapePixels, config) }
+          : { ...layer, config };
+      }),
+      activeLayerId,
+      `config:${activeLayerId}:${keys.join(',')}`
+    );
   };
 
   /**
    * Update any layer's properties
    */
   const updateLayerProperty = (layerId: string, updates: Partial<Layer>) => {
-    setLayers(layers.map(layer =>
-      layer.id === layerId ? { ...layer, ...updates } : layer
-    ));
+    const layer = layers.find(l => l.id === layerId);
+    if (!layer) return;
+    const keys = Object.keys(updates).sort();
+    let label = describeKeys(keys);
+    if (keys.length === 1 && updates.visible !== undefined) {
+      label = updates.visible ? 'show' : 'hide';
+    } else if (keys.includes('shapeImage') || keys.includes('shapeVideo')) {
+      label = updates.shapeImage || updates.shapeVideo ? 'shape guide' : 'clear shape guide';
+    }
+    commit(
+      `${layer.name}: ${label}`,
+      layers.map(l => (l.id === layerId ? { ...l, ...updates } : l)),
+      activeLayerId,
+      `layer:${layerId}:${keys.join(',')}`
+    );
   };
 
   /**
    * Reorder layers by dragging
    */
   const reorderLayers = (fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex) return;
     const newLayers = [...layers];
     const [removed] = newLayers.splice(fromIndex, 1);
     newLayers.splice(toIndex, 0, removed);
-    setLayers(newLayers);
+    commit(`Move ${removed.name}`, newLayers);
   };
 
   /**
@@ -154,18 +348,39 @@ export function useLayerManager(): UseLayerManagerReturn {
     setExpandedLayerIds(newExpanded);
   };
 
+  /**
+   * Replace all layers, e.g. with the contents of a project file
+   * Layers above maxLayers are dropped (files and links can hold any number)
+   */
+  const loadLayers = (loadedLayers: Layer[], newActiveLayerId: string) => {
+    const newLayers = loadedLayers.slice(0, maxLayers);
+    if (newLayers.length === 0) return;
+    const activeId = newLayers.some(l => l.id === newActiveLayerId) ? newActiveLayerId : newLayers[0].id;
+    commit('Open project', newLayers, activeId);
+    setActiveLayerId(activeId);
+    setExpandedLayerIds(new Set([activeId]));
+  };
+
   return {
     layers,
     activeLayerId,
     activeLayer,
     expandedLayerIds,
     setActiveLayerId,
+    maxLayers,
     addLayer,
     removeLayer,
     updateActiveLayerConfig,
     updateLayerProperty,
     reorderLayers,
-    toggleLayerExpand
+    toggleLayerExpand,
+    loadLayers,
+    historyVideos,
+    historyLabels: history.entries.map(entry => entry.label),
+    historyIndex: history.index,
+    undo,
+    redo,
+    jumpToHistory
   };
 }
 
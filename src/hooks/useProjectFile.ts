@@ -0,0 +1,105 @@
+/**
+ * Custom hook for saving and opening project files
+ * Projects are JSON documents with every layer, its config and embedded shape guides
+ */
+
+import { useState, useCallback } from 'react';
+import type { BloomSettings, CanvasSizeSettings, Layer, PostEffectSettings, ProjectFile } from '@/types';
+import { downloadBlob } from '@/utils/download';
+import {
+  serializeProject,
+  parseProjectFile,
+  restoreProjectLayers,
+  ProjectFileError,
+  type ShapeImageLoader
+} from '@/utils/projectFile';
+
+/**
+ * Parameters for the useProjectFile hook
+ */
+interface UseProjectFileParams {
+  /** Current layers */
+  layers: Layer[];
+  /** Currently active layer ID */
+  activeLayerId: string;
+  /** Project seed */
+  seed: number;
+  /** Bloom settings */
+  bloom: BloomSettings;
+  /** Post-effect stack */
+  postEffects: PostEffectSettings[];
+  /** Responsive or fixed canvas size settings */
+  canvasSizeSettings: CanvasSizeSettings;
+  /** Canvas dimensions */
+  canvasSize: { width: number; height: number };
+  /** Loads an image URL and builds its brightness map */
+  loadShapeImage: ShapeImageLoader;
+  /** Called with the restored layers once a project has been opened */
+  onLoad: (project: ProjectFile, layers: Layer[]) => void;
+}
+
+/**
+ * Return type for the useProjectFile hook
+ */
+interface UseProjectFileReturn {
+  /** Message describing why the last open failed (null if it succeeded) */
+  projectError: string | null;
+  /** Download the current project as a JSON file */
+  saveProject: () => void;
+  /** Read a project file and restore it */
+  openProject: (file: File) => Promise<void>;
+}
+
+/**
+ * Hook for project persistence
+ *
+ * @param params - Current state and restore callback
+ * @returns Save/open functions and the last error
+ *
+ * @example
+ * ```tsx
+ * const { saveProject, openProject, projectError } = useProjectFile({
+ *   layers,
+ *   activeLayerId,
+ *   seed,
+ *   bloom,
+ *   postEffects,
+ *   canvasSizeSettings,
+ *   canvasSize,
+ *   loadShapeImage,
+ *   onLoad: (project, layers) => loadLayers(layers, project.activeLayerId)
+ * });
+ * ```
+ */
+export function useProjectFile(params: UseProjectFileParams): UseProjectFileReturn {
+  const { layers, activeLayerId, seed, bloom, postEffects, canvasSizeSettings, canvasSize, loadShapeImage, onLoad } = params;
+
+  const [projectError, setProjectError] = useState<string | null>(null);
+
+  const saveProject = useCallback(() => {
+    const project = serializeProject({ layers, activeLayerId, seed, bloom, postEffects, canvasSizeSettings, canvasSize });
+    const json = JSON.stringify(project, null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'dithered-pattern.project.json');
+  }, [layers, activeLayerId, seed, bloom, postEffects, canvasSizeSettings, canvasSize]);
+
+  const openProject = useCallback(async (file: File) => {
+    try {
+      const project = parseProjectFile(await file.text());
+      const restoredLayers = await restoreProjectLayers(project, loadShapeImage);
+      setProjectError(null);
+      onLoad(project, restoredLayers);
+    } catch (error) {
+      if (error instanceof ProjectFileError) {
+        setProjectError(error.message);
+      } else {
+        throw error;
+      }
+    }
+  }, [loadShapeImage, onLoad]);
+
+  return {
+    projectError,
+    saveProject,
+    openProject
+  };
+}
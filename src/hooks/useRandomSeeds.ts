@@ -0,0 +1,74 @@
+/**
+ * Custom hook for the pre-generated random values used by the patterns
+ * Values are derived from the project seed, so every frame renders reproducibly
+ */
+
+import { useMemo } from 'react';
+import type { RandomSeed } from '@/types';
+import { createRandom } from '@/utils/random';
+
+/**
+ * Parameters for the useRandomSeeds hook
+ */
+interface UseRandomSeedsParams {
+  /** Canvas width in pixels */
+  width: number;
+  /** Canvas height in pixels */
+  height: number;
+  /** Cell size in pixels */
+  cellSize: number;
+  /** Project seed driving all random values */
+  seed: number;
+}
+
+/**
+ * Return type for the useRandomSeeds hook
+ */
+interface UseRandomSeedsReturn {
+  /** Pre-generated random seeds, one per grid cell */
+  randomSeeds: RandomSeed[];
+}
+
+/**
+ * Hook for the random seeds shared by all pattern animations
+ * Rebuilds the seeds when the canvas dimensions, cell size or seed change;
+ * the same inputs always produce the same values.
+ * Rain drops are derived from the seed per layer when rendering (see drops.ts).
+ * 
+ * @param params - Canvas dimensions, cell size and seed
+ * @returns Random seeds
+ * 
+ * @example
+ * ```tsx
+ * const { randomSeeds } = useRandomSeeds({
+ *   width: 800,
+ *   height: 600,
+ *   cellSize: 12,
+ *   seed: 1234
+ * });
+ * ```
+ */
+export function useRandomSeeds(params: UseRandomSeedsParams): UseRandomSeedsReturn {
+  const { width, height, cellSize, seed } = params;
+
+  const cols = width === 0 ? 0 : Math.floor(width / cellSize);
+  const rows = height === 0 ? 0 : Math.floor(height / cellSize);
+
+  // Pre-generate random seeds for consistent random values
+  const randomSeeds = useMemo(() => {
+    const random = createRandom(seed);
+    const seeds: RandomSeed[] = [];
+    for (let i = 0; i < cols * rows; i++) {
+      seeds.push({
+        r1: random(),
+        r2: random(),
+        r3: random()
+      });
+    }
+    return seeds;
+  }, [cols, rows, seed]);
+
+  return {
+    randomSeeds
+  };
+}
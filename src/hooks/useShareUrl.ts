@@ -0,0 +1,164 @@
+/**
+ * Custom hook keeping the URL hash in sync with the composition
+ * Opening a copied link restores the same layers, settings and seed
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { BloomSettings, CanvasSizeSettings, Layer, PostEffectSettings, ProjectFile } from '@/types';
+import { serializeProject, restoreProjectLayers, ProjectFileError, type ShapeImageLoader } from '@/utils/projectFile';
+import { encodeShareHash, decodeShareHash, hasShareHash } from '@/utils/shareUrl';
+
+/** Delay before settings changes are written to the URL */
+const HASH_UPDATE_DELAY = 300;
+
+/**
+ * Parameters for the useShareUrl hook
+ */
+interface UseShareUrlParams {
+  /** Current layers */
+  layers: Layer[];
+  /** Currently active layer ID */
+  activeLayerId: string;
+  /** Project seed */
+  seed: number;
+  /** Bloom settings */
+  bloom: BloomSettings;
+  /** Post-effect stack */
+  postEffects: PostEffectSettings[];
+  /** Responsive or fixed canvas size settings */
+  canvasSizeSettings: CanvasSizeSettings;
+  /** Loads an image URL and builds its brightness map */
+  loadShapeImage: ShapeImageLoader;
+  /** Called with the restored layers when a link is opened */
+  onLoad: (project: ProjectFile, layers: Layer[]) => void;
+}
+
+/**
+ * Return type for the useShareUrl hook
+ */
+interface UseShareUrlReturn {
+  /** Whether shape guide images are embedded in the link */
+  includeShapes: boolean;
+  /** Toggle embedding of shape guide images */
+  setIncludeShapes: (include: boolean) => void;
+  /** Message describing why the link could not be opened, updated or copied (null if fine) */
+  shareError: string | null;
+  /** Copy the current link to the clipboard; resolves to whether it was copied */
+  copyShareLink: () => Promise<boolean>;
+}
+
+/**
+ * Hook for shareable links
+ *
+ * @param params - Current state and restore callback
+ * @returns Link options, copy function and the last error
+ *
+ * @example
+ * ```tsx
+ * const { copyShareLink, includeShapes, setIncludeShapes } = useShareUrl({
+ *   layers,
+ *   activeLayerId,
+ *   seed,
+ *   bloom,
+ *   postEffects,
+ *   canvasSizeSettings,
+ *   loadShapeImage,
+ *   onLoad: (project, layers) => loadLayers(layers, project.activeLayerId)
+ * });
+ * ```
+ */
+export function useShareUrl(params: UseShareUrlParams): UseShareUrlReturn {
+  const { layers, activeLayerId, seed, bloom, postEffects, canvasSizeSettings, loadShapeImage, onLoad } = params;
+
+  const [includeShapes, setIncludeShapes] = useState(false);
+  const [shareError, setShareError] = useState<string | null>(null);
+  // Hash writes are held back until a link present on load has been restored
+  const [ready, setReady] = useState(false);
+  // Last hash written by this hook, to tell our own updates from pasted links
+  const writtenHashRef = useRef('');
+  // The link present on load is restored once (effects run twice under StrictMode)
+  const initialRestoreRef = useRef(false);
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+
+  const restoreFromHash = useCallback(async (hash: string) => {
+    try {
+      const project = await decodeShareHash(hash);
+      const restoredLayers = await restoreProjectLayers(project, loadShapeImage);
+      setShareError(null);
+      onLoadRef.current(project, restoredLayers);
+    } catch (error) {
+      setShareError(error instanceof ProjectFileError ? error.message : 'Link could not be opened');
+    }
+  }, [loadShapeImage]);
+
+  // Restore on load, and when a different link is pasted into the address bar
+  useEffect(() => {
+    const initialHash = window.location.hash;
+    if (!initialRestoreRef.current) {
+      initialRestoreRef.current = true;
+      if (hasShareHash(initialHash)) {
+        writtenHashRef.current = initialHash;
+        restoreFromHash(initialHash).finally(() => setReady(true));
+      } else {
+        setReady(true);
+      }
+    }
+
+    const handleHashChange = () => {
+      const hash = window.location.hash;
+      if (hash !== writtenHashRef.current && hasShareHash(hash)) {
+        writtenHashRef.current = hash;
+        restoreFromHash(hash);
+      }
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [restoreFromHash]);
+
+  // Keep the hash current (debounced, without adding history entries)
+  useEffect(() => {
+    if (!ready) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const project = serializeProject({ layers, activeLayerId, seed, bloom, postEffects, canvasSizeSettings, canvasSize: { width: 0, height: 0 } });
+        const hash = await encodeShareHash(project, includeShapes);
+        if (cancelled || hash === window.location.hash) return;
+        writtenHashRef.current = hash;
+        history.replaceState(null, '', hash);
+      } catch {
+        if (!cancelled) setShareError('Link could not be updated');
+      }
+    }, HASH_UPDATE_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [ready, layers, activeLayerId, seed, bloom, postEffects, canvasSizeSettings, includeShapes]);
+
+  const copyShareLink = useCallback(async () => {
+    try {
+      const project = serializeProject({ layers, activeLayerId, seed, bloom, postEffects, canvasSizeSettings, canvasSize: { width: 0, height: 0 } });
+      const hash = await encodeShareHash(project, includeShapes);
+      writtenHashRef.current = hash;
+      history.replaceState(null, '', hash);
+      // Rejects when clipboard access is denied or the page is not focused
+      await navigator.clipboard.writeText(window.location.href);
+      setShareError(null);
+      return true;
+    } catch {
+      setShareError('Link could not be copied to the clipboard');
+      return false;
+    }
+  }, [layers, activeLayerId, seed, bloom, postEffects, canvasSizeSettings, includeShapes]);
+
+  return {
+    includeShapes,
+    setIncludeShapes,
+    shareError,
+    copyShareLink
+  };
+}
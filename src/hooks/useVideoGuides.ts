@@ -0,0 +1,272 @@
+/**
+ * Custom hook for video and camera shape guides
+ * Loads the sources, keeps video files in step with the animation frame counter and
+ * closes them once nothing (not even the undo history) refers to them anymore
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Layer } from '@/types';
+import {
+  captureVideoPixels,
+  getVideoFrameTime,
+  isCameraVideo,
+  seekVideo
+} from '@/utils/videoGuide';
+
+/** Drift between video and animation tolerated during playback, in seconds */
+const PLAYBACK_DRIFT_TOLERANCE = 0.5;
+
+/** Time without frame requests after which an export is considered finished, in milliseconds */
+const EXPORT_IDLE_DELAY = 1000;
+
+/**
+ * Parameters for the useVideoGuides hook
+ */
+interface UseVideoGuidesParams {
+  /** Current layers */
+  layers: Layer[];
+  /** Guides used by any undo history entry; opened videos outside this list are closed */
+  historyVideos: HTMLVideoElement[];
+  /** Animation speed in milliseconds per frame */
+  animationSpeed: number;
+  /** Current frame number */
+  currentFrame: number;
+  /** Whether animation is playing */
+  isAnimating: boolean;
+  /** Called with the current frame when a paused video has finished seeking */
+  onFrameReady: (frame: number) => void;
+}
+
+/**
+ * A loaded video source and its first frame
+ */
+interface VideoSource {
+  video: HTMLVideoElement;
+  pixels: ImageData;
+}
+
+/**
+ * Return type for the useVideoGuides hook
+ */
+interface UseVideoGuidesReturn {
+  /** Message describing why the last video or camera could not be opened (null if fine) */
+  videoError: string | null;
+  /** Load a video file as a shape guide source */
+  loadVideoFile: (file: File) => Promise<VideoSource | null>;
+  /** Open the local camera as a shape guide source */
+  startCamera: () => Promise<VideoSource | null>;
+  /** Seek all video guides to a frame and wait until the frame can be read (for exports) */
+  prepareVideoFrame: (frame: number) => Promise<void>;
+}
+
+/**
+ * Resolves once a video has decoded a frame
+ */
+function waitForFrame(video: HTMLVideoElement): Promise<void> {
+  if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    video.addEventListener('loadeddata', () => resolve(), { once: true });
+    video.addEventListener('error', () => reject(new Error('Video could not be decoded')), { once: true });
+  });
+}
+
+/**
+ * Stops a camera stream or frees a video file's object URL; the video cannot be used afterwards
+ */
+function closeVideo(video: HTMLVideoElement): void {
+  video.pause();
+  if (video.srcObject instanceof MediaStream) {
+    video.srcObject.getTracks().forEach(track => track.stop());
+    video.srcObject = null;
+  }
+  if (video.src.startsWith('blob:')) {
+    URL.revokeObjectURL(video.src);
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+/**
+ * Hook for live shape guides from video files and the camera
+ *
+ * Video files follow the animation: they play while it plays (re-synced when they drift)
+ * and seek to the current frame's time while paused. Exports call prepareVideoFrame
+ * so every exported frame uses exactly the matching video frame.
+ *
+ * Replaced or cleared guides stay open while an undo history entry still uses them:
+ * video files are paused and camera tracks disabled (camera light off) until undo brings
+ * them back. They are closed when the history drops them and on unmount.
+ *
+ * @param params - Layers, timing and a re-render callback
+ * @returns Loaders and export synchronization
+ *
+ * @example
+ * ```tsx
+ * const { loadVideoFile, prepareVideoFrame } = useVideoGuides({
+ *   layers,
+ *   historyVideos,
+ *   animationSpeed: 50,
+ *   currentFrame,
+ *   isAnimating,
+ *   onFrameReady: renderFrame
+ * });
+ * ```
+ */
+export function useVideoGuides(params: UseVideoGuidesParams): UseVideoGuidesReturn {
+  const { layers, historyVideos, animationSpeed, currentFrame, isAnimating, onFrameReady } = params;
+
+  const [videoError, setVideoError] = useState<string | null>(null);
+  const onFrameReadyRef = useRef(onFrameReady);
+  onFrameReadyRef.current = onFrameReady;
+
+  // Video files of visible layers (cameras are live and never seek)
+  const videos = layers
+    .filter(layer => layer.visible && layer.shapeVideo && !isCameraVideo(layer.shapeVideo))
+    .map(layer => layer.shapeVideo as HTMLVideoElement);
+  const videosKey = videos.map(video => video.src).join('|');
+  const videosRef = useRef(videos);
+  videosRef.current = videos;
+
+  // While an export steps the videos, the playback sync below stays out of its way
+  const exportingRef = useRef(false);
+  const exportTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const currentFrameRef = useRef(currentFrame);
+  currentFrameRef.current = currentFrame;
+
+  /**
+   * Pauses the videos on the time of a frame and re-renders once they are there
+   */
+  const holdFrame = useCallback((frame: number) => {
+    const current = videosRef.current;
+    current.forEach(video => video.pause());
+    return Promise.all(current.map(video =>
+      seekVideo(video, getVideoFrameTime(frame, animationSpeed, video.duration))
+    )).then(() => current.length > 0);
+  }, [animationSpeed]);
+
+  // Play along with the animation, or hold the frame for the current animation frame
+  useEffect(() => {
+    if (exportingRef.current) return;
+
+    if (isAnimating) {
+      videosRef.current.forEach((video) => {
+        const target = getVideoFrameTime(currentFrame, animationSpeed, video.duration);
+        if (Math.abs(video.currentTime - target) > PLAYBACK_DRIFT_TOLERANCE) {
+          video.currentTime = target;
+        }
+        if (video.paused) video.play().catch(() => undefined);
+      });
+      return;
+    }
+
+    let cancelled = false;
+    holdFrame(currentFrame).then((hasVideos) => {
+      if (!cancelled && hasVideos) onFrameReadyRef.current(currentFrame);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAnimating, currentFrame, animationSpeed, videosKey, holdFrame]);
+
+  // Videos and cameras opened here that have not been closed yet
+  const openVideosRef = useRef(new Set<HTMLVideoElement>());
+
+  // Close guides no history entry uses; idle guides that undo may still restore
+  useEffect(() => {
+    const live = new Set(layers.map(layer => layer.shapeVideo));
+    const kept = new Set(historyVideos);
+    openVideosRef.current.forEach((video) => {
+      if (!kept.has(video)) {
+        closeVideo(video);
+        openVideosRef.current.delete(video);
+      } else if (video.srcObject instanceof MediaStream) {
+        video.srcObject.getVideoTracks().forEach((track) => {
+          track.enabled = live.has(video);
+        });
+      } else if (!live.has(video)) {
+        video.pause();
+      }
+    });
+  }, [layers, historyVideos]);
+
+  // Stop the export timer and close all guides on unmount
+  useEffect(() => {
+    const openVideos = openVideosRef.current;
+    return () => {
+      clearTimeout(exportTimerRef.current);
+      openVideos.forEach(closeVideo);
+      openVideos.clear();
+    };
+  }, []);
+
+  const loadVideoFile = useCallback(async (file: File) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.loop = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.src = URL.createObjectURL(file);
+    try {
+      await waitForFrame(video);
+      const pixels = captureVideoPixels(video);
+      if (!pixels) throw new Error('Video has no frames');
+      setVideoError(null);
+      openVideosRef.current.add(video);
+      return { video, pixels };
+    } catch {
+      URL.revokeObjectURL(video.src);
+      setVideoError('Video could not be opened');
+      return null;
+    }
+  }, []);
+
+  const startCamera = useCallback(async () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setVideoError('This browser cannot access a camera');
+      return null;
+    }
+    let stream: MediaStream | null = null;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = stream;
+      await video.play();
+      await waitForFrame(video);
+      const pixels = captureVideoPixels(video);
+      if (!pixels) throw new Error('Camera has no frames');
+      setVideoError(null);
+      openVideosRef.current.add(video);
+      return { video, pixels };
+    } catch {
+      stream?.getTracks().forEach(track => track.stop());
+      setVideoError('Camera could not be opened (permission denied or no camera)');
+      return null;
+    }
+  }, []);
+
+  const prepareVideoFrame = useCallback(async (frame: number) => {
+    exportingRef.current = true;
+    // Once frames stop being requested the export is over: return to the current frame
+    clearTimeout(exportTimerRef.current);
+    exportTimerRef.current = setTimeout(() => {
+      exportingRef.current = false;
+      holdFrame(currentFrameRef.current).then((hasVideos) => {
+        if (hasVideos) onFrameReadyRef.current(currentFrameRef.current);
+      });
+    }, EXPORT_IDLE_DELAY);
+
+    await Promise.all(videosRef.current.map((video) => {
+      video.pause();
+      return seekVideo(video, getVideoFrameTime(frame, animationSpeed, video.duration));
+    }));
+  }, [animationSpeed, holdFrame]);
+
+  return {
+    videoError,
+    loadVideoFile,
+    startCamera,
+    prepareVideoFrame
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Custom hook for recording the canvas to a video file
+ * Steps the animation frame by frame instead of relying on playback timing
+ * Frames are rendered onto a canvas of the recorder's own (the display canvas may be owned by the render worker)
+ */
+
+import { useState, useCallback } from 'react';
+import type { VideoExportOptions } from '@/types';
+import { VIDEO_FORMATS, type VideoFormat } from '@/utils/constants';
+import { downloadBlob } from '@/utils/download';
+import { planVideoRecording } from '@/utils/recording';
+
+/**
+ * Parameters for the useVideoRecorder hook
+ */
+interface UseVideoRecorderParams {
+  /** Output dimensions */
+  canvasSize: { width: number; height: number };
+  /** Renders a frame onto a canvas on the main thread */
+  renderFrameToCanvas: (target: HTMLCanvasElement, frame: number) => void;
+  /** Jumps the animation to an exact frame so the preview follows the recording */
+  seekFrame: (frame: number) => void;
+  /** Animation speed in milliseconds per frame (natural playback rate) */
+  animationSpeed: number;
+  /** Loop period of the visible patterns in frames, or null if they never repeat */
+  loopPeriod: number | null;
+  /** Waits until frame-dependent sources (e.g. video guides) show the given frame */
+  prepareFrame?: (frame: number) => Promise<void>;
+}
+
+/**
+ * Return type for the useVideoRecorder hook
+ */
+interface UseVideoRecorderReturn {
+  /** Recording progress (0-1) while recording, null otherwise */
+  videoProgress: number | null;
+  /** Formats supported by this browser's MediaRecorder */
+  supportedFormats: VideoFormat[];
+  /** Record the canvas with the given options and download the video */
+  recordVideo: (options: VideoExportOptions) => Promise<void>;
+}
+
+/**
+ * Waits for the given number of milliseconds
+ */
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Hook for recording WebM/MP4 videos of the animation
+ *
+ * @param params - Recorder dependencies
+ * @returns Record function, progress and supported formats
+ *
+ * @example
+ * ```tsx
+ * const { recordVideo, videoProgress } = useVideoRecorder({
+ *   canvasSize,
+ *   renderFrameToCanvas,
+ *   seekFrame,
+ *   animationSpeed: 50,
+ *   loopPeriod: getLoopPeriod(visibleLayerConfigs)
+ * });
+ *
+ * recordVideo({ fps: 30, duration: 5, mimeType: 'video/webm', seamlessLoop: true, startFrame: 0 });
+ * ```
+ */
+export function useVideoRecorder(params: UseVideoRecorderParams): UseVideoRecorderReturn {
+  const { canvasSize, renderFrameToCanvas, seekFrame, animationSpeed, loopPeriod, prepareFrame } = params;
+
+  const [videoProgress, setVideoProgress] = useState<number | null>(null);
+
+  const supportedFormats: VideoFormat[] = typeof MediaRecorder === 'undefined'
+    ? []
+    : VIDEO_FORMATS.filter(format => MediaRecorder.isTypeSupported(format.mimeType));
+
+  const recordVideo = useCallback(async (options: VideoExportOptions) => {
+    if (canvasSize.width === 0 || canvasSize.height === 0 || typeof MediaRecorder === 'undefined') return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = canvasSize.width;
+    canvas.height = canvasSize.height;
+
+    const format = VIDEO_FORMATS.find(f => f.mimeType === options.mimeType) ?? VIDEO_FORMATS[0];
+    const plan = planVideoRecording(options, animationSpeed, loopPeriod);
+    const frameDuration = 1000 / Math.max(1, options.fps);
+
+    // A zero-rate stream only captures frames we explicitly request
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType: format.mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    setVideoProgress(0);
+    try {
+      // Let a pending pause take effect before taking over the frame counter
+      await wait(frameDuration);
+      recorder.start();
+
+      for (let i = 0; i < plan.frameCount; i++) {
+        const frameStart = performance.now();
+        const offset = i * plan.frameIncrement;
+        // Aperiodic patterns index seeds by frame, so keep them on whole frames
+        const frame = options.startFrame + (plan.isSeamless ? offset : Math.floor(offset));
+        await prepareFrame?.(frame);
+        renderFrameToCanvas(canvas, frame);
+        seekFrame(frame);
+        track.requestFrame();
+        setVideoProgress((i + 1) / plan.frameCount);
+        // Time spent preparing counts toward the frame duration
+        await wait(Math.max(0, frameDuration - (performance.now() - frameStart)));
+      }
+
+      recorder.stop();
+      await stopped;
+      downloadBlob(new Blob(chunks, { type: format.mimeType }), `dithered-pattern.${format.extension}`);
+    } finally {
+      stream.getTracks().forEach(t => t.stop());
+      seekFrame(options.startFrame);
+      setVideoProgress(null);
+    }
+  }, [canvasSize, renderFrameToCanvas, seekFrame, animationSpeed, loopPeriod, prepareFrame]);
+
+  return {
+    videoProgress,
+    supportedFormats,
+    recordVideo
+  };
+}
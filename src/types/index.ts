@@ -28,6 +28,78 @@ export interface RandomSeed {
   r3: number;
 }
 
+/**
+ * Identifier of a pattern in the pattern registry
+ * Built-in ids are listed for autocompletion; registered patterns may add more
+ */
+export type PatternId = 'rain' | 'wave' | 'static' | 'glitch' | 'pulse' | 'dither' | 'ascii' | (string & Record<never, never>);
+
+/**
+ * Value of a single pattern parameter
+ */
+export type PatternParamValue = number | boolean | string;
+
+/**
+ * Pattern parameter values keyed by parameter name
+ */
+export type PatternParams = Record<string, PatternParamValue>;
+
+/**
+ * Declares one pattern parameter and how it is edited in the UI
+ */
+export type PatternParamSchema =
+  | {
+      type: 'number';
+      key: string;
+      label: string;
+      min: number;
+      max: number;
+      step: number;
+      /** Optional unit suffix shown after the value */
+      unit?: string;
+      description?: string;
+    }
+  | {
+      type: 'boolean';
+      key: string;
+      label: string;
+      description?: string;
+    }
+  | {
+      type: 'select';
+      key: string;
+      label: string;
+      options: { value: string; label: string }[];
+      description?: string;
+    };
+
+/**
+ * How a shape guide is fitted to the grid
+ * 'contain' = whole image visible, 'cover' = grid filled (cropped), 'stretch' = grid filled (distorted),
+ * 'tile' = repeated at native size, 'native' = one image pixel per cell
+ */
+export type ShapeFit = 'contain' | 'cover' | 'stretch' | 'tile' | 'native';
+
+/**
+ * Image channel a shape guide's brightness is read from
+ * 'average' = (r + g + b) / 3, 'luminance' = Rec.709 weighted
+ */
+export type ShapeChannel = 'average' | 'luminance' | 'red' | 'green' | 'blue' | 'alpha';
+
+/**
+ * Generated brightness map used as shape guide
+ * 'none' = use the uploaded guide (if any), gradients span the guide, noise/voronoi/checker repeat by scale
+ */
+export type ProceduralGuideType =
+  | 'none'
+  | 'linear'
+  | 'radial'
+  | 'conic'
+  | 'perlin'
+  | 'simplex'
+  | 'voronoi'
+  | 'checker';
+
 /**
  * Configuration for a single layer's visual properties and behavior
  */
@@ -44,14 +116,54 @@ export interface LayerConfig {
   bgColor: string;
   /** Animation speed in milliseconds per frame */
   animationSpeed: number;
-  /** Pattern type ('rain', 'wave', 'static', 'glitch', 'pulse') */
-  pattern: string;
+  /** Pattern id from the pattern registry ('rain', 'wave', 'static', 'glitch', 'pulse', 'dither', 'ascii', ...) */
+  pattern: PatternId;
+  /** Parameter overrides per pattern id (missing values use the pattern's defaults) */
+  patternParams: Record<string, PatternParams>;
   /** Whether to apply gradient effect */
   gradient: boolean;
   /** Whether to apply glow effect */
   glowEffect: boolean;
   /** How strongly the shape guide influences the pattern (0-1) */
   shapeInfluence: number;
+  /** How the shape guide is fitted to the grid */
+  shapeFit: ShapeFit;
+  /** Horizontal offset of the shape guide as a fraction of the grid width (0 = centered) */
+  shapeOffsetX: number;
+  /** Vertical offset of the shape guide as a fraction of the grid height (0 = centered) */
+  shapeOffsetY: number;
+  /** Scale of the shape guide on top of the fit (1 = fitted size) */
+  shapeScale: number;
+  /** Rotation of the shape guide in degrees */
+  shapeRotation: number;
+  /** Image channel the shape guide brightness is read from */
+  shapeChannel: ShapeChannel;
+  /** Blur radius in guide pixels (0 = off) */
+  shapeBlur: number;
+  /** Whether the guide is replaced by its edges (Sobel) */
+  shapeEdges: boolean;
+  /** Input level mapped to black (0-1) */
+  shapeBlackPoint: number;
+  /** Input level mapped to white (0-1) */
+  shapeWhitePoint: number;
+  /** Gamma applied after levels (1 = linear) */
+  shapeGamma: number;
+  /** Contrast around mid gray (1 = unchanged) */
+  shapeContrast: number;
+  /** Threshold for a two-tone guide (0 = off) */
+  shapeThreshold: number;
+  /** Whether the guide brightness is inverted */
+  shapeInvert: boolean;
+  /** Generated shape guide (replaces uploaded guides unless 'none') */
+  proceduralGuide: ProceduralGuideType;
+  /** Features per guide width for noise, voronoi and checker guides */
+  proceduralScale: number;
+  /** Gradient direction, or scroll direction of animated noise and checker guides, in degrees */
+  proceduralAngle: number;
+  /** Number of noise octaves (each adds detail at twice the frequency) */
+  proceduralOctaves: number;
+  /** Animation speed in guide widths (or gradient cycles) per 100 frames (0 = static) */
+  proceduralSpeed: number;
   /** Strength of the gradient effect (0-1) */
   gradientStrength: number;
   /** Intensity of the glow effect (0-20) */
@@ -60,6 +172,31 @@ export interface LayerConfig {
   glowRadius: number;
 }
 
+/**
+ * How a layer is composited onto the layers below it
+ * Values are canvas globalCompositeOperation names ('source-over' = normal, 'lighter' = add)
+ */
+export type BlendMode =
+  | 'source-over'
+  | 'screen'
+  | 'lighter'
+  | 'multiply'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion';
+
+/**
+ * How a mask layer clips the layer above it
+ * 'none' = regular layer, 'alpha' = glyph coverage, 'luminance' = glyph brightness
+ */
+export type MaskMode = 'none' | 'alpha' | 'luminance';
+
 /**
  * Represents a single layer in the composition
  */
@@ -72,11 +209,317 @@ export interface Layer {
   visible: boolean;
   /** Layer opacity (0-1) */
   opacity: number;
+  /** Blend mode used when compositing onto the layers below */
+  blendMode: BlendMode;
+  /** When not 'none', the layer is not drawn but masks the next visible layer above */
+  maskMode: MaskMode;
+  /** Invert the mask (hide where the mask layer has glyphs) */
+  maskInvert: boolean;
   /** Visual configuration for this layer */
   config: LayerConfig;
   /** Uploaded shape guide image (if any) */
   shapeImage: HTMLImageElement | null;
-  /** Brightness map derived from shape image */
+  /** Live shape guide (video file or camera); its current frame replaces shapeData when rendering */
+  shapeVideo: HTMLVideoElement | null;
+  /** Downscaled pixels of the shape image (first frame for videos), input of the preprocessing chain */
+  shapePixels: ImageData | null;
+  /** Brightness map derived from the shape pixels by the preprocessing settings */
   shapeData: number[][] | null;
 }
 
+
+/**
+ * Destination for glyphs emitted by the pattern renderers
+ */
+export interface GlyphTarget {
+  /** Draw a symbol centered at (x, y) in pixels with the given brightness (0-1) */
+  drawGlyph: (symbol: string, x: number, y: number, brightness: number) => void;
+}
+
+/**
+ * Canvas the compositor can draw on (main thread or worker)
+ */
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * 2D context of a RenderCanvas
+ */
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * How glyphs are drawn
+ * 'text' = fillText per cell (with shadowBlur glow), 'atlas' = blits from a pre-rasterized glyph atlas,
+ * 'webgl' = instanced quads with a shader glow (falls back to 'text' without WebGL2)
+ */
+export type RenderBackend = 'text' | 'atlas' | 'webgl';
+
+/**
+ * How the canvas size is chosen
+ * 'responsive' = follows the canvas area of the window, 'fixed' = a set output resolution
+ * shown scaled to fit
+ */
+export type CanvasSizeMode = 'responsive' | 'fixed';
+
+/**
+ * Output resolution preset id ('custom' = width and height entered by hand)
+ */
+export type OutputPreset = '1080p' | '4k' | 'square' | 'story' | 'custom';
+
+/**
+ * Canvas size settings
+ */
+export interface CanvasSizeSettings {
+  mode: CanvasSizeMode;
+  /** Preset the fixed size was picked from */
+  preset: OutputPreset;
+  /** Fixed output width in pixels */
+  width: number;
+  /** Fixed output height in pixels */
+  height: number;
+}
+
+/**
+ * Result of rendering the same frame with one backend
+ */
+export interface BackendComparison {
+  backend: RenderBackend;
+  /** Average time to render the frame in milliseconds */
+  renderTime: number;
+  /** Mean per-channel difference from the first compared backend (0-1) */
+  difference: number;
+}
+
+/**
+ * Bloom post-processing pass applied to the composited frame
+ */
+export interface BloomSettings {
+  /** Whether bloom is applied */
+  enabled: boolean;
+  /** Luminance (0-1) above which pixels bloom */
+  threshold: number;
+  /** Largest blur radius in pixels (smaller radii are added too) */
+  radius: number;
+  /** Amount of bloom added back (0-3) */
+  strength: number;
+  /** Skip the layers' per-glyph glow while bloom is on (false = bloom adds to it) */
+  replaceGlow: boolean;
+}
+
+/**
+ * Post effect identifier (built-in ids listed for autocompletion; more can be registered)
+ */
+export type PostEffectId =
+  | 'phosphor'
+  | 'chromaticAberration'
+  | 'rgbSplit'
+  | 'scanlines'
+  | 'filmGrain'
+  | 'vignette'
+  | 'barrelDistortion'
+  | (string & Record<never, never>);
+
+/**
+ * One entry of the post-effect stack (applied in stack order after bloom)
+ */
+export interface PostEffectSettings {
+  /** Registered effect id */
+  id: PostEffectId;
+  /** Whether the effect is applied */
+  enabled: boolean;
+  /** Parameter values (see the effect's schema in postEffects.ts) */
+  params: PatternParams;
+}
+
+/**
+ * Everything needed to render a frame, independent of where it is drawn
+ */
+export interface RenderScene {
+  /** Output width in pixels */
+  width: number;
+  /** Output height in pixels */
+  height: number;
+  /** Layers in bottom-to-top order */
+  layers: Layer[];
+  /** Pre-generated random seeds */
+  randomSeeds: RandomSeed[];
+  /** Project seed */
+  seed: number;
+  /** How glyphs are drawn */
+  backend: RenderBackend;
+  /** Bloom applied after compositing */
+  bloom: BloomSettings;
+  /** Post effects applied after bloom, in order */
+  postEffects: PostEffectSettings[];
+}
+
+/**
+ * Layer as sent to the render worker: DOM objects are dropped and the brightness
+ * map is referenced by id (maps are only transferred when they change)
+ */
+export type RenderWorkerLayer = Pick<
+  Layer,
+  'id' | 'name' | 'visible' | 'opacity' | 'blendMode' | 'maskMode' | 'maskInvert' | 'config'
+> & {
+  /** Id of the brightness map held by the worker (null if none) */
+  shapeDataId: number | null;
+};
+
+/**
+ * Messages from the main thread to the render worker
+ */
+export type RenderWorkerRequest =
+  | {
+      /** Hands the worker the transferred display canvas */
+      type: 'init';
+      canvas: OffscreenCanvas;
+    }
+  | {
+      /** Replaces the random seeds (sent only when they change) */
+      type: 'seeds';
+      randomSeeds: RandomSeed[];
+    }
+  | {
+      /** Renders a frame of the given layers */
+      type: 'render';
+      frame: number;
+      width: number;
+      height: number;
+      seed: number;
+      backend: RenderBackend;
+      bloom: BloomSettings;
+      postEffects: PostEffectSettings[];
+      layers: RenderWorkerLayer[];
+      /** Brightness maps the worker does not hold yet */
+      addShapes: [number, number[][]][];
+      /** Brightness maps no longer referenced */
+      removeShapes: number[];
+    };
+
+/**
+ * Messages from the render worker to the main thread
+ */
+export type RenderWorkerResponse =
+  | {
+      /** The worker has loaded and can take over the canvas */
+      type: 'ready';
+    }
+  | {
+      /** A frame has been drawn (or failed); the next one may be sent */
+      type: 'rendered';
+      frame: number;
+      /** Why the frame could not be drawn (null if it was) */
+      error: string | null;
+    };
+
+/**
+ * RGB color triplet with channels in the 0-255 range
+ */
+export type RGB = [number, number, number];
+
+/**
+ * Options for rendering text into a shape guide
+ */
+export interface TextGuideOptions {
+  /** Text to render (line breaks start new lines) */
+  text: string;
+  /** CSS font family */
+  fontFamily: string;
+  /** CSS font weight (100-900) */
+  fontWeight: number;
+  /** Font size in pixels */
+  fontSize: number;
+  /** Extra space between letters in pixels */
+  letterSpacing: number;
+}
+
+/**
+ * Options for exporting a frame range as an animated GIF
+ */
+export interface GifExportOptions {
+  /** First frame to render (inclusive) */
+  startFrame: number;
+  /** Last frame to render (inclusive) */
+  endFrame: number;
+  /** Number of animation frames to advance between exported frames */
+  frameStep: number;
+  /** Number of times the GIF repeats (0 = loop forever) */
+  loopCount: number;
+}
+
+/**
+ * Options for recording the canvas to a video file
+ */
+export interface VideoExportOptions {
+  /** Frames per second of the recorded video */
+  fps: number;
+  /** Requested clip length in seconds (rounded to whole loops when seamless) */
+  duration: number;
+  /** MediaRecorder MIME type (e.g. 'video/webm;codecs=vp9') */
+  mimeType: string;
+  /** Whether to fit the clip to the patterns' loop period so it repeats without a seam */
+  seamlessLoop: boolean;
+  /** Animation frame the recording starts from */
+  startFrame: number;
+}
+
+/**
+ * Plan describing which animation frames a recording covers
+ */
+export interface VideoRecordingPlan {
+  /** Number of video frames to capture */
+  frameCount: number;
+  /** Animation frames advanced per captured video frame */
+  frameIncrement: number;
+  /** Actual clip length in seconds */
+  duration: number;
+  /** Whether the clip spans whole loop periods */
+  isSeamless: boolean;
+}
+
+/**
+ * Layer as stored in a project file (shape guide embedded as a data URL)
+ */
+export interface SerializedLayer {
+  /** Unique identifier for the layer */
+  id: string;
+  /** Display name of the layer */
+  name: string;
+  /** Whether the layer is visible */
+  visible: boolean;
+  /** Layer opacity (0-1) */
+  opacity: number;
+  /** Blend mode used when compositing */
+  blendMode: BlendMode;
+  /** Mask mode ('none' for regular layers) */
+  maskMode: MaskMode;
+  /** Whether the mask is inverted */
+  maskInvert: boolean;
+  /** Visual configuration for this layer */
+  config: LayerConfig;
+  /** Shape guide image as a data URL (null if none) */
+  shapeImage: string | null;
+}
+
+/**
+ * Versioned project file contents
+ */
+export interface ProjectFile {
+  /** File format marker */
+  format: 'dither-pattern-project';
+  /** Format version (see PROJECT_FILE_VERSION) */
+  version: number;
+  /** Project seed */
+  seed: number;
+  /** Canvas size the project was saved at */
+  canvas: { width: number; height: number };
+  /** Responsive or fixed output size (responsive when missing from older files) */
+  canvasSizeSettings: CanvasSizeSettings;
+  /** ID of the layer that was active */
+  activeLayerId: string;
+  /** Layers in bottom-to-top order */
+  layers: SerializedLayer[];
+  /** Bloom settings (defaults when missing from older files) */
+  bloom: BloomSettings;
+  /** Post-effect stack in application order */
+  postEffects: PostEffectSettings[];
+}
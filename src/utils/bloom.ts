@@ -0,0 +1,149 @@
+/**
+ * Bloom post-processing
+ * Bright pixels of the composited frame are extracted, blurred at several radii
+ * (a chain of halved copies) and added back onto the frame
+ */
+
+import type { BloomSettings, RenderCanvas, RenderContext } from '@/types';
+import { getRenderContext } from './renderPatterns';
+
+/**
+ * Bloom pass with its own reusable scratch canvases
+ */
+export interface BloomPass {
+  /** Add bloom to a composited frame */
+  apply: (target: RenderCanvas, settings: BloomSettings) => void;
+}
+
+/** Most blur levels (each doubles the radius of the previous one) */
+const MAX_BLOOM_LEVELS = 6;
+
+/** The bright pass runs at this fraction of the frame size */
+const BRIGHT_PASS_SCALE = 0.5;
+
+/**
+ * Number of blur levels covering a radius
+ * Level k blurs by about 2^k / BRIGHT_PASS_SCALE pixels of the full frame
+ *
+ * @param radius - Largest blur radius in pixels
+ * @returns Level count (1 to MAX_BLOOM_LEVELS)
+ */
+export function getBloomLevels(radius: number): number {
+  const levels = Math.ceil(Math.log2(Math.max(1, radius * BRIGHT_PASS_SCALE)));
+  return Math.min(MAX_BLOOM_LEVELS, Math.max(1, levels));
+}
+
+/**
+ * Keeps the part of each pixel above the luminance threshold (in place)
+ * A pixel at the threshold contributes nothing, a white pixel contributes fully
+ *
+ * @param data - RGBA pixels
+ * @param threshold - Luminance threshold (0-1)
+ */
+export function extractBrightPixels(data: Uint8ClampedArray, threshold: number): void {
+  const knee = Math.max(1e-3, 1 - threshold);
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+    const amount = Math.max(0, luminance - threshold) / knee;
+    data[i] *= amount;
+    data[i + 1] *= amount;
+    data[i + 2] *= amount;
+    data[i + 3] = 255;
+  }
+}
+
+/**
+ * Creates a bloom pass
+ *
+ * @param createCanvas - Creates a scratch canvas (a canvas element or an OffscreenCanvas)
+ * @returns Bloom pass
+ *
+ * @example
+ * const bloom = createBloomPass(() => document.createElement('canvas'));
+ * bloom.apply(canvas, { enabled: true, threshold: 0.6, radius: 16, strength: 1, replaceGlow: false });
+ */
+export function createBloomPass(createCanvas: () => RenderCanvas): BloomPass {
+  let bright: { canvas: RenderCanvas; ctx: RenderContext } | null = null;
+  // Downsampled copies of the bright pass, and the blur levels summed from the smallest up
+  const downs: { canvas: RenderCanvas; ctx: RenderContext }[] = [];
+  const ups: { canvas: RenderCanvas; ctx: RenderContext }[] = [];
+
+  const createScratch = (options?: CanvasRenderingContext2DSettings) => {
+    const canvas = createCanvas();
+    const ctx = getRenderContext(canvas, options);
+    return ctx ? { canvas, ctx } : null;
+  };
+
+  /**
+   * Resizes a scratch canvas (only when the size changed, which clears it)
+   */
+  const fit = (canvas: RenderCanvas, width: number, height: number) => {
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+  };
+
+  const apply = (target: RenderCanvas, settings: BloomSettings) => {
+    const targetCtx = getRenderContext(target);
+    const { width, height } = target;
+    if (!targetCtx || width === 0 || height === 0 || settings.strength <= 0) return;
+
+    bright ??= createScratch({ willReadFrequently: true });
+    if (!bright) return;
+
+    // Bright pass at reduced size
+    const brightWidth = Math.max(1, Math.ceil(width * BRIGHT_PASS_SCALE));
+    const brightHeight = Math.max(1, Math.ceil(height * BRIGHT_PASS_SCALE));
+    fit(bright.canvas, brightWidth, brightHeight);
+    bright.ctx.clearRect(0, 0, brightWidth, brightHeight);
+    bright.ctx.drawImage(target, 0, 0, width, height, 0, 0, brightWidth, brightHeight);
+    const pixels = bright.ctx.getImageData(0, 0, brightWidth, brightHeight);
+    extractBrightPixels(pixels.data, settings.threshold);
+    bright.ctx.putImageData(pixels, 0, 0);
+
+    // Halve repeatedly: each level is a wider blur of the bright pixels
+    const levels = getBloomLevels(settings.radius);
+    for (let k = 0; k < levels; k++) {
+      const down = downs[k] ?? createScratch();
+      const up = ups[k] ?? createScratch();
+      if (!down || !up) return;
+      downs[k] = down;
+      ups[k] = up;
+
+      const source = k === 0 ? bright.canvas : downs[k - 1].canvas;
+      const levelWidth = Math.max(1, Math.ceil(source.width / 2));
+      const levelHeight = Math.max(1, Math.ceil(source.height / 2));
+      fit(down.canvas, levelWidth, levelHeight);
+      fit(up.canvas, levelWidth, levelHeight);
+      down.ctx.clearRect(0, 0, levelWidth, levelHeight);
+      down.ctx.drawImage(source, 0, 0, levelWidth, levelHeight);
+    }
+
+    // Sum the levels from the smallest up, doubling the size at each step so the
+    // result stays smooth; each level contributes an equal share
+    for (let k = levels - 1; k >= 0; k--) {
+      const { canvas, ctx } = ups[k];
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.globalAlpha = 1 / levels;
+      ctx.drawImage(downs[k].canvas, 0, 0);
+      ctx.globalAlpha = 1;
+      if (k < levels - 1) {
+        ctx.globalCompositeOperation = 'lighter';
+        ctx.drawImage(ups[k + 1].canvas, 0, 0, canvas.width, canvas.height);
+        ctx.globalCompositeOperation = 'source-over';
+      }
+    }
+
+    // Add back onto the frame; strengths above 1 add the bloom more than once
+    targetCtx.save();
+    targetCtx.globalCompositeOperation = 'lighter';
+    for (let remaining = settings.strength; remaining > 0; remaining -= 1) {
+      targetCtx.globalAlpha = Math.min(1, remaining);
+      targetCtx.drawImage(ups[0].canvas, 0, 0, width, height);
+    }
+    targetCtx.restore();
+  };
+
+  return { apply };
+}
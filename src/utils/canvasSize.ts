@@ -0,0 +1,64 @@
+/**
+ * Canvas size helpers
+ * Output resolution versus the size the canvas is shown at
+ */
+
+import type { CanvasSizeSettings } from '@/types';
+import { MAX_OUTPUT_SIZE } from './constants';
+
+/**
+ * Width and height in pixels
+ */
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+/** Smallest output side in pixels */
+export const MIN_OUTPUT_SIZE = 16;
+
+/**
+ * Clamps an entered output side to the supported range
+ *
+ * @param value - Width or height in pixels
+ * @returns Whole number between MIN_OUTPUT_SIZE and MAX_OUTPUT_SIZE
+ */
+export function clampOutputSize(value: number): number {
+  if (!Number.isFinite(value)) return MIN_OUTPUT_SIZE;
+  return Math.min(MAX_OUTPUT_SIZE, Math.max(MIN_OUTPUT_SIZE, Math.round(value)));
+}
+
+/**
+ * Resolves the size frames are rendered (and exported) at
+ *
+ * @param settings - Canvas size settings
+ * @param available - Size of the canvas area in the window
+ * @returns The canvas area in responsive mode, the (clamped) fixed resolution otherwise
+ */
+export function resolveCanvasSize(settings: CanvasSizeSettings, available: CanvasSize): CanvasSize {
+  if (settings.mode === 'responsive') return available;
+  return { width: clampOutputSize(settings.width), height: clampOutputSize(settings.height) };
+}
+
+/**
+ * Fits an output resolution into the canvas area, keeping its aspect ratio
+ *
+ * @param output - Rendered size
+ * @param available - Size of the canvas area in the window
+ * @returns Display size in CSS pixels and its scale relative to the output (1 = pixel for pixel)
+ *
+ * @example
+ * fitPreviewSize({ width: 3840, height: 2160 }, { width: 960, height: 800 });
+ * // { width: 960, height: 540, scale: 0.25 }
+ */
+export function fitPreviewSize(output: CanvasSize, available: CanvasSize): CanvasSize & { scale: number } {
+  if (output.width === 0 || output.height === 0 || available.width === 0 || available.height === 0) {
+    return { width: 0, height: 0, scale: 1 };
+  }
+  const scale = Math.min(available.width / output.width, available.height / output.height);
+  return {
+    width: Math.floor(output.width * scale),
+    height: Math.floor(output.height * scale),
+    scale
+  };
+}
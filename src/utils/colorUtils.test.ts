@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseColor } from './colorUtils';
+
+describe('parseColor', () => {
+  it('runs without a DOM, as in the render worker', () => {
+    expect(typeof document).toBe('undefined');
+  });
+
+  it('parses hex colors', () => {
+    expect(parseColor('#00ff9f')).toEqual([0, 255, 159]);
+    expect(parseColor('#0f9')).toEqual([0, 255, 153]);
+  });
+
+  it('parses hsl() colors', () => {
+    expect(parseColor('hsl(120, 100%, 50%)')).toEqual([0, 255, 0]);
+    expect(parseColor('hsl(0, 100%, 50%)')).toEqual([255, 0, 0]);
+    expect(parseColor('hsl(240, 100%, 25%)')).toEqual([0, 0, 128]);
+    expect(parseColor('hsl(213.7, 100%, 50%)')).toEqual([0, 112, 255]);
+    expect(parseColor('hsla(60deg 0% 100% / 0.5)')).toEqual([255, 255, 255]);
+  });
+
+  it('parses rgb() colors', () => {
+    expect(parseColor('rgb(10, 20, 30)')).toEqual([10, 20, 30]);
+    expect(parseColor('rgba(255 128 0 / 50%)')).toEqual([255, 128, 0]);
+    expect(parseColor('rgb(100%, 0%, 50%)')).toEqual([255, 0, 128]);
+  });
+
+  it('falls back to black for colors it cannot resolve', () => {
+    expect(parseColor('not-a-color')).toEqual([0, 0, 0]);
+  });
+});
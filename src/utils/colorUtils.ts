@@ -2,11 +2,13 @@
  * Utility functions for color and brightness calculations
  */
 
-import type { Layer } from '@/types';
+import type { Layer, RenderContext, RGB } from '@/types';
+import { getShapeGrid } from './shapeSampling';
 
 /**
  * Calculates the shape brightness at a given position
  * Returns a value between 0-1 representing how bright the shape is at that position
+ * The guide is placed by the layer's fit, offset, scale and rotation and averaged per cell
  * 
  * @param x - Horizontal grid position
  * @param y - Vertical grid position
@@ -26,24 +28,15 @@ export function getShapeBrightnessForLayer(
   layer: Layer
 ): number {
   if (!layer.shapeData) return 1;
-  
-  const shapeWidth = layer.shapeData[0].length;
-  const shapeHeight = layer.shapeData.length;
-  
-  // Center the shape in the canvas
-  const offsetX = Math.floor((cols - shapeWidth) / 2);
-  const offsetY = Math.floor((rows - shapeHeight) / 2);
-  
-  const shapeX = x - offsetX;
-  const shapeY = y - offsetY;
+
+  const brightness = getShapeGrid(layer.shapeData, cols, rows, layer.config)[y * cols + x];
   
   // Outside shape bounds - use inverted influence
-  if (shapeX < 0 || shapeX >= shapeWidth || shapeY < 0 || shapeY >= shapeHeight) {
+  if (Number.isNaN(brightness)) {
     return 1 - layer.config.shapeInfluence;
   }
   
   // Inside shape - blend brightness with influence
-  const brightness = layer.shapeData[shapeY][shapeX];
   return brightness * layer.config.shapeInfluence + (1 - layer.config.shapeInfluence);
 }
 
@@ -77,3 +70,132 @@ export function calculateGlowBlur(
   return Math.floor(glowIntensity * brightness * (glowRadius / 10));
 }
 
+
+/** Lazily created context used to normalize other CSS color strings (null where none exists) */
+let colorParseContext: RenderContext | null | undefined;
+
+/**
+ * Gets a 2D context for normalizing colors: a canvas element on the main thread,
+ * an OffscreenCanvas in workers
+ */
+function getColorParseContext(): RenderContext | null {
+  if (colorParseContext === undefined) {
+    if (typeof document !== 'undefined') {
+      colorParseContext = document.createElement('canvas').getContext('2d');
+    } else if (typeof OffscreenCanvas !== 'undefined') {
+      colorParseContext = new OffscreenCanvas(1, 1).getContext('2d');
+    } else {
+      colorParseContext = null;
+    }
+  }
+  return colorParseContext;
+}
+
+/**
+ * Converts HSL (hue in degrees, saturation and lightness 0-1) to RGB channels
+ */
+function hslToRgb(hue: number, saturation: number, lightness: number): RGB {
+  const h = ((hue % 360) + 360) % 360;
+  const s = Math.min(1, Math.max(0, saturation));
+  const l = Math.min(1, Math.max(0, lightness));
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * Parses a CSS color string into RGB channels
+ * Hex, rgb() and hsl() colors are parsed directly, so this also works in workers and without a DOM;
+ * other formats (e.g. named colors) are normalized by a canvas context where one exists
+ *
+ * @param color - Any CSS color string
+ * @returns RGB triplet (0-255 per channel), black if the color cannot be parsed
+ *
+ * @example
+ * parseColor('#00ff9f') // Returns [0, 255, 159]
+ * parseColor('hsl(120, 100%, 50%)') // Returns [0, 255, 0]
+ */
+export function parseColor(color: string): RGB {
+  let hex = color.trim();
+
+  const rgbMatch = hex.match(/^rgba?\(\s*([\d.]+)(%?)[\s,]+([\d.]+)(%?)[\s,]+([\d.]+)(%?)/i);
+  if (rgbMatch) {
+    const channel = (value: string, percent: string) => {
+      const parsed = percent ? (Number(value) * 255) / 100 : Number(value);
+      return Math.round(Math.min(255, Math.max(0, parsed)));
+    };
+    return [channel(rgbMatch[1], rgbMatch[2]), channel(rgbMatch[3], rgbMatch[4]), channel(rgbMatch[5], rgbMatch[6])];
+  }
+
+  const hslMatch = hex.match(/^hsla?\(\s*(-?[\d.]+)(?:deg)?[\s,]+([\d.]+)%[\s,]+([\d.]+)%/i);
+  if (hslMatch) {
+    return hslToRgb(Number(hslMatch[1]), Number(hslMatch[2]) / 100, Number(hslMatch[3]) / 100);
+  }
+
+  if (!/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+    const context = getColorParseContext();
+    if (!context) return [0, 0, 0];
+    context.fillStyle = '#000000';
+    context.fillStyle = color;
+    hex = String(context.fillStyle);
+    // Colors with alpha come back as rgba(...)
+    const normalizedMatch = hex.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/);
+    if (normalizedMatch) {
+      return [Number(normalizedMatch[1]), Number(normalizedMatch[2]), Number(normalizedMatch[3])];
+    }
+  }
+
+  if (hex.length === 4) {
+    hex = '#' + hex.slice(1).split('').map(c => c + c).join('');
+  }
+  return [
+    parseInt(hex.slice(1, 3), 16),
+    parseInt(hex.slice(3, 5), 16),
+    parseInt(hex.slice(5, 7), 16)
+  ];
+}
+
+/**
+ * Builds a palette (max 256 colors) covering the colors the layers can produce
+ * Each layer's symbol color is blended toward every layer background in even steps,
+ * matching how translucent symbols and glow render over the background
+ *
+ * @param layers - Layers whose color/bgColor define the palette
+ * @returns Palette of unique RGB colors
+ */
+export function buildLayerPalette(layers: Layer[]): RGB[] {
+  const backgrounds = Array.from(new Set(layers.map(l => l.config.bgColor))).map(parseColor);
+  const colors = Array.from(new Set(layers.map(l => l.config.color))).map(parseColor);
+
+  // Share the 256 slots evenly between every color/background pair
+  const pairCount = Math.max(1, backgrounds.length * colors.length);
+  const steps = Math.max(2, Math.min(64, Math.floor((256 - backgrounds.length) / pairCount)));
+
+  const seen = new Set<number>();
+  const palette: RGB[] = [];
+  const add = (rgb: RGB) => {
+    const key = (rgb[0] << 16) | (rgb[1] << 8) | rgb[2];
+    if (seen.has(key) || palette.length >= 256) return;
+    seen.add(key);
+    palette.push(rgb);
+  };
+
+  backgrounds.forEach(add);
+  colors.forEach((fg) => {
+    backgrounds.forEach((bg) => {
+      for (let s = 1; s <= steps; s++) {
+        const t = s / steps;
+        add([
+          Math.round(bg[0] + (fg[0] - bg[0]) * t),
+          Math.round(bg[1] + (fg[1] - bg[1]) * t),
+          Math.round(bg[2] + (fg[2] - bg[2]) * t)
+        ]);
+      }
+    });
+  });
+
+  return palette;
+}
@@ -0,0 +1,198 @@
+/**
+ * Layer compositor shared by the main thread and the render worker
+ * Renders each visible layer to its own canvas and composites them onto a target
+ */
+
+import type { Layer, RenderCanvas, RenderContext, RenderScene } from '@/types';
+import { createCanvasGlyphTarget, getGlyphFontSize, getRenderContext, type RenderPatternParams } from './renderPatterns';
+import { renderLayerPattern } from './patternRegistry';
+import { isMaskLayer, applyLayerMask } from './layerMask';
+import { createAtlasGlyphTarget } from './glyphAtlas';
+import { createBloomPass, type BloomPass } from './bloom';
+import { createPostEffectPipeline, type PostEffectPipeline } from './postEffects';
+import { createGlyphBatch, createWebGLGlyphRenderer, type WebGLGlyphRenderer } from './webglRenderer';
+import { pruneProceduralGuides, withProceduralShapeData } from './proceduralGuide';
+import { createDropSimulations } from './drops';
+
+/**
+ * Compositor with its own reusable layer canvases
+ */
+export interface Compositor {
+  /** Composite all visible layers of a scene at a frame onto a target canvas */
+  renderFrame: (target: RenderCanvas, scene: RenderScene, frame: number) => void;
+}
+
+/**
+ * Compositor settings
+ */
+export interface CompositorOptions {
+  /**
+   * Keep animation state between frames, so playing forward is cheaper (for the display;
+   * exports leave it off and compute every frame on its own)
+   */
+  playback?: boolean;
+}
+
+/**
+ * Creates a compositor
+ * Output depends only on the scene and the frame number
+ *
+ * @param createCanvas - Creates a scratch canvas (a canvas element or an OffscreenCanvas)
+ * @param options - Compositor settings
+ * @returns Compositor
+ *
+ * @example
+ * const compositor = createCompositor(() => document.createElement('canvas'));
+ * compositor.renderFrame(canvas, { width, height, layers, randomSeeds, seed, backend: 'text', bloom, postEffects }, frame);
+ */
+export function createCompositor(createCanvas: () => RenderCanvas, options: CompositorOptions = {}): Compositor {
+  // Canvas per layer id, reused across frames
+  const layerCanvases = new Map<string, RenderCanvas>();
+  // Scratch canvas for luminance masks
+  let maskScratch: RenderCanvas | null = null;
+  // Bloom pass, created on first use
+  let bloomPass: BloomPass | null = null;
+  // Post-effect stack, created on first use
+  let postEffectPipeline: PostEffectPipeline | null = null;
+  // Rain drop state for playback, owned by this compositor alone
+  const dropSimulations = options.playback ? createDropSimulations() : undefined;
+  // WebGL2 glyph renderer, created on first use (null if WebGL2 is unavailable)
+  let glyphRenderer: WebGLGlyphRenderer | null | undefined;
+
+  /**
+   * Renders a layer's glyphs with WebGL2 and copies them onto the layer canvas
+   * @returns False if WebGL2 could not draw them
+   */
+  const renderLayerWithWebGL = (ctx: RenderContext, params: Omit<RenderPatternParams, 'target'>, width: number, height: number) => {
+    if (glyphRenderer === undefined) {
+      glyphRenderer = createWebGLGlyphRenderer(createCanvas(), createCanvas);
+    }
+    if (!glyphRenderer) return false;
+
+    const batch = createGlyphBatch(params.layer.config);
+    renderLayerPattern({ ...params, target: batch });
+    if (!glyphRenderer.render(batch, params.layer.config, width, height)) return false;
+    ctx.drawImage(glyphRenderer.canvas, 0, 0);
+    return true;
+  };
+
+  /**
+   * Renders a single layer to its canvas
+   */
+  const renderLayerToCanvas = (layer: Layer, canvas: RenderCanvas, scene: RenderScene, frame: number) => {
+    const ctx = getRenderContext(canvas);
+    if (!ctx) return;
+
+    const { width, height } = scene;
+    const layerConfig = layer.config;
+
+    const cols = Math.floor(width / layerConfig.cellSize);
+    const rows = Math.floor(height / layerConfig.cellSize);
+
+    // Clear with transparent background (layers composite)
+    ctx.clearRect(0, 0, width, height);
+
+    const params = {
+      layer,
+      cols,
+      rows,
+      cellSize: layerConfig.cellSize,
+      frame,
+      randomSeeds: scene.randomSeeds,
+      seed: scene.seed,
+      dropSimulations
+    };
+    // Without WebGL2 the WebGL backend falls back to canvas text
+    if (scene.backend === 'webgl' && renderLayerWithWebGL(ctx, params, width, height)) return;
+
+    // Targets leave alpha and shadow state behind, which must not leak into the next frame
+    ctx.save();
+    ctx.font = `${getGlyphFontSize(layerConfig.cellSize)}px monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const atlasTarget = scene.backend === 'atlas' ? createAtlasGlyphTarget(ctx, layerConfig) : null;
+    renderLayerPattern({ ...params, target: atlasTarget ?? createCanvasGlyphTarget(ctx, layerConfig) });
+    ctx.restore();
+  };
+
+  const renderFrame = (target: RenderCanvas, scene: RenderScene, frame: number) => {
+    const ctx = getRenderContext(target);
+    if (!ctx) return;
+
+    const { width, height, layers } = scene;
+    if (width === 0 || height === 0) return;
+
+    // Clear main canvas with the bottom layer's background color (or default)
+    const bottomLayer = layers[0];
+    ctx.fillStyle = bottomLayer?.config.bgColor || '#0a0e27';
+    ctx.fillRect(0, 0, width, height);
+
+    // Drop canvases and procedural guides of layers that no longer exist
+    layerCanvases.forEach((_, id) => {
+      if (!layers.some(layer => layer.id === id)) layerCanvases.delete(id);
+    });
+    pruneProceduralGuides(layers);
+
+    // Render each visible layer to its canvas and composite them
+    // Bloom can take over from the per-glyph glow
+    const replaceGlow = scene.bloom.enabled && scene.bloom.replaceGlow;
+    const visibleLayers = layers
+      .filter(layer => layer.visible)
+      .map(layer => (replaceGlow ? { ...layer, config: { ...layer.config, glowEffect: false } } : layer));
+    let pendingMask: { layer: Layer; canvas: RenderCanvas } | null = null;
+
+    visibleLayers.forEach((layer) => {
+      // Fully transparent layers contribute nothing and are skipped (mask
+      // layers are never drawn, so their opacity does not matter)
+      if (layer.opacity === 0 && !isMaskLayer(layer)) {
+        pendingMask = null;
+        return;
+      }
+
+      let layerCanvas = layerCanvases.get(layer.id);
+      if (!layerCanvas) {
+        layerCanvas = createCanvas();
+        layerCanvases.set(layer.id, layerCanvas);
+      }
+      // Resizing reallocates the bitmap, so only do it when the size changed
+      if (layerCanvas.width !== width || layerCanvas.height !== height) {
+        layerCanvas.width = width;
+        layerCanvas.height = height;
+      }
+
+      // Procedural guides are generated for the frame being rendered
+      renderLayerToCanvas(withProceduralShapeData(layer, frame, scene.seed), layerCanvas, scene, frame);
+
+      // Mask layers clip the next visible layer instead of being drawn
+      if (isMaskLayer(layer)) {
+        pendingMask = { layer, canvas: layerCanvas };
+        return;
+      }
+      if (pendingMask) {
+        maskScratch ??= createCanvas();
+        applyLayerMask(layerCanvas, pendingMask.canvas, pendingMask.layer, maskScratch);
+        pendingMask = null;
+      }
+
+      // Composite onto the target with layer opacity and blend mode
+      ctx.globalAlpha = layer.opacity;
+      ctx.globalCompositeOperation = layer.blendMode;
+      ctx.drawImage(layerCanvas, 0, 0);
+      ctx.globalAlpha = 1; // Reset
+      ctx.globalCompositeOperation = 'source-over';
+    });
+
+    // Post-processing on the composited frame
+    if (scene.bloom.enabled) {
+      bloomPass ??= createBloomPass(createCanvas);
+      bloomPass.apply(target, scene.bloom);
+    }
+    if (scene.postEffects.some(effect => effect.enabled)) {
+      postEffectPipeline ??= createPostEffectPipeline(createCanvas);
+      postEffectPipeline.apply(target, scene.postEffects, frame, scene.seed);
+    }
+  };
+
+  return { renderFrame };
+}
@@ -2,6 +2,22 @@
  * Constant values and preset configurations for the pattern generator
  */
 
+import type {
+  BlendMode,
+  BloomSettings,
+  CanvasSizeMode,
+  CanvasSizeSettings,
+  LayerConfig,
+  MaskMode,
+  OutputPreset,
+  PatternId,
+  PatternParams,
+  ProceduralGuideType,
+  RenderBackend,
+  ShapeChannel,
+  ShapeFit
+} from '@/types';
+
 /**
  * Predefined symbol sets for different visual styles
  * Each preset contains a string of characters that can be used in patterns
@@ -22,16 +38,6 @@ export const symbolPresets = {
  */
 export type SymbolPresetKey = keyof typeof symbolPresets;
 
-/**
- * Available pattern animation types
- */
-export const patternTypes = ['rain', 'wave', 'static', 'glitch', 'pulse'] as const;
-
-/**
- * Type for pattern types
- */
-export type PatternType = typeof patternTypes[number];
-
 /**
  * Default configuration values for new layers
  */
@@ -42,12 +48,229 @@ export const DEFAULT_LAYER_CONFIG = {
   color: '#00ff9f',
   bgColor: '#0a0e27',
   animationSpeed: 50,
-  pattern: 'rain' as PatternType,
+  pattern: 'rain' as PatternId,
+  patternParams: {} as Record<string, PatternParams>,
   gradient: true,
   glowEffect: true,
   shapeInfluence: 0.8,
+  shapeFit: 'contain' as ShapeFit,
+  shapeOffsetX: 0,
+  shapeOffsetY: 0,
+  shapeScale: 1,
+  shapeRotation: 0,
+  shapeChannel: 'average' as ShapeChannel,
+  shapeBlur: 0,
+  shapeEdges: false,
+  shapeBlackPoint: 0,
+  shapeWhitePoint: 1,
+  shapeGamma: 1,
+  shapeContrast: 1,
+  shapeThreshold: 0,
+  shapeInvert: false,
+  proceduralGuide: 'none' as ProceduralGuideType,
+  proceduralScale: 4,
+  proceduralAngle: 0,
+  proceduralOctaves: 4,
+  proceduralSpeed: 0,
   gradientStrength: 0.8,
   glowIntensity: 10,
   glowRadius: 10
 } as const;
 
+/**
+ * Ranges of the numeric layer settings, matching their sliders
+ * Values from project files and links are clamped to these, since the renderer relies on them
+ * (e.g. a cell size of 0 would make the grid infinite)
+ */
+export const LAYER_CONFIG_RANGES: {
+  [K in keyof LayerConfig as LayerConfig[K] extends number ? K : never]: { min: number; max: number };
+} = {
+  density: { min: 0.1, max: 1 },
+  cellSize: { min: 6, max: 24 },
+  animationSpeed: { min: 10, max: 200 },
+  shapeInfluence: { min: 0, max: 1 },
+  shapeOffsetX: { min: -1, max: 1 },
+  shapeOffsetY: { min: -1, max: 1 },
+  shapeScale: { min: 0.1, max: 5 },
+  shapeRotation: { min: -180, max: 180 },
+  shapeBlur: { min: 0, max: 20 },
+  shapeBlackPoint: { min: 0, max: 1 },
+  shapeWhitePoint: { min: 0, max: 1 },
+  shapeGamma: { min: 0.1, max: 3 },
+  shapeContrast: { min: 0, max: 3 },
+  shapeThreshold: { min: 0, max: 1 },
+  proceduralScale: { min: 1, max: 32 },
+  proceduralAngle: { min: 0, max: 360 },
+  proceduralOctaves: { min: 1, max: 8 },
+  proceduralSpeed: { min: 0, max: 5 },
+  gradientStrength: { min: 0, max: 1 },
+  glowIntensity: { min: 0, max: 20 },
+  glowRadius: { min: 0, max: 30 }
+};
+
+/**
+ * Layer blend modes offered in the layer settings
+ */
+export const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: 'source-over', label: 'Normal' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'lighter', label: 'Add' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' },
+  { value: 'color-dodge', label: 'Color Dodge' },
+  { value: 'color-burn', label: 'Color Burn' },
+  { value: 'hard-light', label: 'Hard Light' },
+  { value: 'soft-light', label: 'Soft Light' },
+  { value: 'difference', label: 'Difference' },
+  { value: 'exclusion', label: 'Exclusion' }
+];
+
+/**
+ * Layer mask modes
+ */
+export const MASK_MODES: { value: MaskMode; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'alpha', label: 'Alpha' },
+  { value: 'luminance', label: 'Luminance' }
+];
+
+/**
+ * Shape guide fit modes
+ */
+export const SHAPE_FIT_MODES: { value: ShapeFit; label: string }[] = [
+  { value: 'contain', label: 'Contain' },
+  { value: 'cover', label: 'Cover' },
+  { value: 'stretch', label: 'Stretch' },
+  { value: 'tile', label: 'Tile' },
+  { value: 'native', label: 'Native (1 pixel per cell)' }
+];
+
+/**
+ * Shape guide channels
+ */
+export const SHAPE_CHANNELS: { value: ShapeChannel; label: string }[] = [
+  { value: 'average', label: 'Average RGB' },
+  { value: 'luminance', label: 'Luminance (Rec.709)' },
+  { value: 'red', label: 'Red' },
+  { value: 'green', label: 'Green' },
+  { value: 'blue', label: 'Blue' },
+  { value: 'alpha', label: 'Alpha' }
+];
+
+/**
+ * Procedural shape guides
+ */
+export const PROCEDURAL_GUIDES: { value: ProceduralGuideType; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'linear', label: 'Linear Gradient' },
+  { value: 'radial', label: 'Radial Gradient' },
+  { value: 'conic', label: 'Conic Gradient' },
+  { value: 'perlin', label: 'Perlin Noise' },
+  { value: 'simplex', label: 'Simplex Noise' },
+  { value: 'voronoi', label: 'Voronoi Cells' },
+  { value: 'checker', label: 'Checkerboard' }
+];
+
+/**
+ * Default bloom settings (off, so compositions look as before)
+ */
+export const DEFAULT_BLOOM_SETTINGS: BloomSettings = {
+  enabled: false,
+  threshold: 0.5,
+  radius: 16,
+  strength: 1,
+  replaceGlow: false
+};
+
+/**
+ * Glyph rendering backends
+ */
+export const RENDER_BACKENDS: { value: RenderBackend; label: string }[] = [
+  { value: 'text', label: 'Canvas Text' },
+  { value: 'atlas', label: 'Glyph Atlas' },
+  { value: 'webgl', label: 'WebGL2' }
+];
+
+/**
+ * Canvas size modes
+ */
+export const CANVAS_SIZE_MODES: { value: CanvasSizeMode; label: string }[] = [
+  { value: 'responsive', label: 'Fit Window' },
+  { value: 'fixed', label: 'Fixed Resolution' }
+];
+
+/**
+ * Fixed output resolutions
+ */
+export const OUTPUT_PRESETS: { value: Exclude<OutputPreset, 'custom'>; label: string; width: number; height: number }[] = [
+  { value: '1080p', label: '1080p (1920 × 1080)', width: 1920, height: 1080 },
+  { value: '4k', label: '4K (3840 × 2160)', width: 3840, height: 2160 },
+  { value: 'square', label: 'Square (1080 × 1080)', width: 1080, height: 1080 },
+  { value: 'story', label: '9:16 Story (1080 × 1920)', width: 1080, height: 1920 }
+];
+
+/**
+ * Largest custom output side in pixels (canvas limits vary by browser)
+ */
+export const MAX_OUTPUT_SIZE = 8192;
+
+/**
+ * Default canvas size settings (follow the window, as before fixed sizes existed)
+ */
+export const DEFAULT_CANVAS_SIZE_SETTINGS: CanvasSizeSettings = {
+  mode: 'responsive',
+  preset: '1080p',
+  width: 1920,
+  height: 1080
+};
+
+/**
+ * Font families offered for text shape guides
+ */
+export const GUIDE_FONTS: { value: string; label: string }[] = [
+  { value: 'sans-serif', label: 'Sans Serif' },
+  { value: 'serif', label: 'Serif' },
+  { value: 'monospace', label: 'Monospace' },
+  { value: 'Impact, sans-serif', label: 'Impact' },
+  { value: 'Georgia, serif', label: 'Georgia' },
+  { value: 'cursive', label: 'Cursive' }
+];
+
+/**
+ * Font weights offered for text shape guides
+ */
+export const GUIDE_FONT_WEIGHTS: { value: number; label: string }[] = [
+  { value: 300, label: 'Light' },
+  { value: 400, label: 'Regular' },
+  { value: 700, label: 'Bold' },
+  { value: 900, label: 'Black' }
+];
+
+/**
+ * Default maximum number of layers (changeable in the Layers section)
+ */
+export const DEFAULT_MAX_LAYERS = 10;
+
+/**
+ * Highest layer limit that can be set (every layer renders to its own canvas)
+ */
+export const MAX_LAYER_LIMIT = 32;
+
+
+/**
+ * Video container/codec options offered for recording
+ * Only the ones supported by the browser's MediaRecorder are shown
+ */
+export const VIDEO_FORMATS = [
+  { label: 'WebM (VP9)', mimeType: 'video/webm;codecs=vp9', extension: 'webm' },
+  { label: 'WebM (VP8)', mimeType: 'video/webm;codecs=vp8', extension: 'webm' },
+  { label: 'MP4 (H.264)', mimeType: 'video/mp4;codecs=avc1', extension: 'mp4' },
+  { label: 'MP4', mimeType: 'video/mp4', extension: 'mp4' }
+] as const;
+
+/**
+ * Type for video format entries
+ */
+export type VideoFormat = typeof VIDEO_FORMATS[number];
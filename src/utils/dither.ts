@@ -0,0 +1,262 @@
+/**
+ * Dithering of brightness grids
+ * Ordered (Bayer, blue noise) and error-diffusion (Floyd–Steinberg, Atkinson) algorithms,
+ * quantizing each cell to one of a fixed number of levels
+ */
+
+import { createRandom } from './random';
+
+/**
+ * Available dithering algorithms
+ */
+export type DitherAlgorithm = 'bayer2' | 'bayer4' | 'bayer8' | 'floyd-steinberg' | 'atkinson' | 'blue-noise';
+
+/**
+ * Dithering algorithms offered in the pattern settings
+ */
+export const DITHER_ALGORITHMS: { value: DitherAlgorithm; label: string }[] = [
+  { value: 'bayer2', label: 'Bayer 2×2' },
+  { value: 'bayer4', label: 'Bayer 4×4' },
+  { value: 'bayer8', label: 'Bayer 8×8' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { value: 'atkinson', label: 'Atkinson' },
+  { value: 'blue-noise', label: 'Blue Noise' }
+];
+
+/**
+ * Threshold matrix for ordered dithering
+ * Thresholds are in (0, 1), stored row by row
+ */
+interface ThresholdMatrix {
+  size: number;
+  values: Float32Array;
+}
+
+/**
+ * Error-diffusion kernel: [dx, dy, weight] (dx is mirrored on right-to-left rows)
+ */
+type DiffusionKernel = [number, number, number][];
+
+const FLOYD_STEINBERG_KERNEL: DiffusionKernel = [
+  [1, 0, 7 / 16],
+  [-1, 1, 3 / 16],
+  [0, 1, 5 / 16],
+  [1, 1, 1 / 16]
+];
+
+// Atkinson only spreads 6/8 of the error, which keeps highlights and shadows clean
+const ATKINSON_KERNEL: DiffusionKernel = [
+  [1, 0, 1 / 8],
+  [2, 0, 1 / 8],
+  [-1, 1, 1 / 8],
+  [0, 1, 1 / 8],
+  [1, 1, 1 / 8],
+  [0, 2, 1 / 8]
+];
+
+/** Side length of the generated blue-noise tile */
+const BLUE_NOISE_SIZE = 64;
+/** Gaussian spread used by void-and-cluster */
+const BLUE_NOISE_SIGMA = 1.5;
+/** Fixed seed so the blue-noise tile is the same in every session and export */
+const BLUE_NOISE_SEED = 0x5eed;
+
+const matrixCache = new Map<DitherAlgorithm, ThresholdMatrix>();
+
+/**
+ * Builds a Bayer index matrix of the given size (a power of two) by recursive subdivision
+ */
+function createBayerMatrix(size: number): ThresholdMatrix {
+  let indices = [0];
+  let n = 1;
+  while (n < size) {
+    const next = new Array<number>(n * 2 * n * 2);
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const base = indices[y * n + x] * 4;
+        next[y * 2 * n + x] = base;
+        next[y * 2 * n + x + n] = base + 2;
+        next[(y + n) * 2 * n + x] = base + 3;
+        next[(y + n) * 2 * n + x + n] = base + 1;
+      }
+    }
+    indices = next;
+    n *= 2;
+  }
+
+  const count = size * size;
+  return { size, values: Float32Array.from(indices, index => (index + 0.5) / count) };
+}
+
+/**
+ * Builds a blue-noise threshold matrix with Ulichney's void-and-cluster method
+ * Energy is a toroidal Gaussian sum, so the tile repeats without seams
+ */
+function createBlueNoiseMatrix(size: number): ThresholdMatrix {
+  const count = size * size;
+
+  // Gaussian weight by toroidal offset
+  const kernel = new Float32Array(count);
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      const wx = Math.min(dx, size - dx);
+      const wy = Math.min(dy, size - dy);
+      kernel[dy * size + dx] = Math.exp(-(wx * wx + wy * wy) / (2 * BLUE_NOISE_SIGMA * BLUE_NOISE_SIGMA));
+    }
+  }
+
+  const applyPoint = (energy: Float32Array, index: number, sign: number) => {
+    const px = index % size;
+    const py = Math.floor(index / size);
+    for (let y = 0; y < size; y++) {
+      const row = ((y - py + size) % size) * size;
+      for (let x = 0; x < size; x++) {
+        energy[y * size + x] += sign * kernel[row + ((x - px + size) % size)];
+      }
+    }
+  };
+
+  // Tightest cluster: the set point with the highest energy; largest void: the empty point with the lowest
+  const findExtreme = (pattern: Uint8Array, energy: Float32Array, set: 0 | 1, highest: boolean): number => {
+    let best = -1;
+    for (let i = 0; i < count; i++) {
+      if (pattern[i] !== set) continue;
+      if (best === -1 || (highest ? energy[i] > energy[best] : energy[i] < energy[best])) {
+        best = i;
+      }
+    }
+    return best;
+  };
+
+  // Initial random pattern with ~10% of points set
+  const random = createRandom(BLUE_NOISE_SEED);
+  const prototype = new Uint8Array(count);
+  const prototypeEnergy = new Float32Array(count);
+  const initialPoints = Math.floor(count / 10);
+  let placed = 0;
+  while (placed < initialPoints) {
+    const index = Math.floor(random() * count);
+    if (prototype[index]) continue;
+    prototype[index] = 1;
+    applyPoint(prototypeEnergy, index, 1);
+    placed++;
+  }
+
+  // Move points from clusters into voids until the pattern is evenly spread
+  for (let iteration = 0; iteration < count; iteration++) {
+    const cluster = findExtreme(prototype, prototypeEnergy, 1, true);
+    prototype[cluster] = 0;
+    applyPoint(prototypeEnergy, cluster, -1);
+    const voidIndex = findExtreme(prototype, prototypeEnergy, 0, false);
+    prototype[voidIndex] = 1;
+    applyPoint(prototypeEnergy, voidIndex, 1);
+    if (voidIndex === cluster) break;
+  }
+
+  const ranks = new Float32Array(count);
+
+  // Phase 1: rank the initial points by removing tightest clusters
+  const pattern = prototype.slice();
+  const energy = prototypeEnergy.slice();
+  for (let rank = initialPoints - 1; rank >= 0; rank--) {
+    const cluster = findExtreme(pattern, energy, 1, true);
+    pattern[cluster] = 0;
+    applyPoint(energy, cluster, -1);
+    ranks[cluster] = rank;
+  }
+
+  // Phases 2 and 3: fill the largest voids. Once the majority is set, the tightest cluster of
+  // empty points is the empty point with the lowest energy, so the same search serves both phases
+  for (let rank = initialPoints; rank < count; rank++) {
+    const voidIndex = findExtreme(prototype, prototypeEnergy, 0, false);
+    prototype[voidIndex] = 1;
+    applyPoint(prototypeEnergy, voidIndex, 1);
+    ranks[voidIndex] = rank;
+  }
+
+  return { size, values: ranks.map(rank => (rank + 0.5) / count) };
+}
+
+/**
+ * Gets (and caches) the threshold matrix of an ordered algorithm
+ */
+function getThresholdMatrix(algorithm: DitherAlgorithm): ThresholdMatrix {
+  let matrix = matrixCache.get(algorithm);
+  if (!matrix) {
+    matrix = algorithm === 'blue-noise'
+      ? createBlueNoiseMatrix(BLUE_NOISE_SIZE)
+      : createBayerMatrix(algorithm === 'bayer2' ? 2 : algorithm === 'bayer4' ? 4 : 8);
+    matrixCache.set(algorithm, matrix);
+  }
+  return matrix;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Dithers a brightness grid
+ *
+ * @param values - Brightness per cell (0-1), row by row
+ * @param width - Grid width in cells
+ * @param height - Grid height in cells
+ * @param algorithm - Dithering algorithm
+ * @param levels - Number of output levels (2 = on/off)
+ * @param serpentine - Alternate the scan direction per row (error diffusion only)
+ * @returns Level per cell, 0 (darkest) to levels - 1 (brightest), row by row
+ *
+ * @example
+ * const levels = ditherGrid(brightness, cols, rows, 'floyd-steinberg', 2, true);
+ * levels[y * cols + x] === 1 // cell is on
+ */
+export function ditherGrid(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  algorithm: DitherAlgorithm,
+  levels: number,
+  serpentine = true
+): Uint8Array {
+  const steps = Math.max(1, Math.round(levels) - 1);
+  const output = new Uint8Array(width * height);
+
+  if (algorithm === 'floyd-steinberg' || algorithm === 'atkinson') {
+    const kernel = algorithm === 'atkinson' ? ATKINSON_KERNEL : FLOYD_STEINBERG_KERNEL;
+    const buffer = Float32Array.from(values);
+
+    for (let y = 0; y < height; y++) {
+      const reversed = serpentine && y % 2 === 1;
+      for (let step = 0; step < width; step++) {
+        const x = reversed ? width - 1 - step : step;
+        const index = y * width + x;
+        const level = Math.round(clamp01(buffer[index]) * steps);
+        output[index] = level;
+
+        const error = buffer[index] - level / steps;
+        for (const [dx, dy, weight] of kernel) {
+          const nx = x + (reversed ? -dx : dx);
+          const ny = y + dy;
+          if (nx >= 0 && nx < width && ny < height) {
+            buffer[ny * width + nx] += error * weight;
+          }
+        }
+      }
+    }
+    return output;
+  }
+
+  // Ordered: the threshold picks between the two levels around the value
+  const matrix = getThresholdMatrix(algorithm);
+  for (let y = 0; y < height; y++) {
+    const matrixRow = (y % matrix.size) * matrix.size;
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const scaled = clamp01(values[index]) * steps;
+      const base = Math.min(steps - 1, Math.floor(scaled));
+      const threshold = matrix.values[matrixRow + (x % matrix.size)];
+      output[index] = base + (scaled - base > threshold ? 1 : 0);
+    }
+  }
+  return output;
+}
@@ -0,0 +1,22 @@
+/**
+ * Browser download helpers
+ */
+
+/**
+ * Triggers a download of a Blob under the given file name
+ * 
+ * @param blob - File contents
+ * @param filename - Suggested file name
+ * 
+ * @example
+ * downloadBlob(new Blob(['hello']), 'hello.txt');
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { createDropSimulations, createDrops, getDropsAtFrame, type DropOptions } from './drops';
+
+const options: DropOptions = { speedMin: 0.5, speedMax: 2, trailMin: 10, trailMax: 30, speedFactor: 0.7 };
+
+describe('createDropSimulations', () => {
+  it('matches computing each frame from frame 0, also after seeking back', () => {
+    const simulations = createDropSimulations();
+    const frames = [...Array.from({ length: 300 }, (_, frame) => frame), 40, 41, 500, 3];
+    frames.forEach((frame) => {
+      expect(simulations.getDrops(40, 30, 7, frame, options))
+        .toEqual(getDropsAtFrame(createDrops(40, 30, 7, options), frame, 30, 7, options));
+    });
+  });
+});
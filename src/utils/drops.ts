@@ -0,0 +1,223 @@
+/**
+ * Rain drop simulation
+ * Drop positions are a pure function of seed and frame, so any frame can be rendered directly;
+ * playback advances the previous frame's state instead of replaying from frame 0
+ */
+
+import type { Drop } from '@/types';
+import { hashRandom } from './random';
+
+/** Random channels used per drop */
+const CHANNEL_Y = 0;
+const CHANNEL_SPEED = 1;
+const CHANNEL_LENGTH = 2;
+
+/**
+ * Speed and trail settings of the rain pattern
+ */
+export type DropOptions = {
+  /** Slowest drop speed */
+  speedMin: number;
+  /** Fastest drop speed */
+  speedMax: number;
+  /** Shortest trail in cells */
+  trailMin: number;
+  /** Longest trail in cells */
+  trailMax: number;
+  /** Cells moved per frame per unit of speed */
+  speedFactor: number;
+};
+
+/**
+ * Drop settings matching the original rain pattern
+ */
+export const DEFAULT_DROP_OPTIONS: DropOptions = {
+  speedMin: 0.5,
+  speedMax: 2,
+  trailMin: 10,
+  trailMax: 30,
+  speedFactor: 0.3
+};
+
+/**
+ * Maps a 0-1 random value into [min, max] (bounds may be given in either order)
+ */
+function lerpRange(min: number, max: number, t: number): number {
+  const low = Math.min(min, max);
+  return low + t * Math.abs(max - min);
+}
+
+/**
+ * Creates the frame-0 drop layout, one drop per lane
+ *
+ * @param lanes - Number of lanes (grid columns for vertical rain)
+ * @param extent - Cells along the fall direction (grid rows for vertical rain)
+ * @param seed - Project seed
+ * @param options - Speed and trail settings
+ * @returns Initial drops (x is the lane, y the position along the fall direction)
+ */
+export function createDrops(
+  lanes: number,
+  extent: number,
+  seed: number,
+  options: DropOptions = DEFAULT_DROP_OPTIONS
+): Drop[] {
+  const drops: Drop[] = [];
+  for (let x = 0; x < lanes; x++) {
+    drops.push({
+      x,
+      y: hashRandom(seed, x, 0, CHANNEL_Y) * extent,
+      speed: lerpRange(options.speedMin, options.speedMax, hashRandom(seed, x, 0, CHANNEL_SPEED)),
+      length: lerpRange(options.trailMin, options.trailMax, hashRandom(seed, x, 0, CHANNEL_LENGTH))
+    });
+  }
+  return drops;
+}
+
+/**
+ * The fall a drop is currently in; its position during the fall follows from these directly
+ */
+interface DropFall {
+  /** Frame the fall started at */
+  start: number;
+  /** Position at that frame */
+  y: number;
+  /** Speed during the fall */
+  speed: number;
+  /** Completed falls before this one */
+  wraps: number;
+}
+
+/**
+ * Drop state kept between frames for one layout and settings
+ */
+interface DropSimulation {
+  initialDrops: Drop[];
+  falls: DropFall[];
+  frame: number;
+}
+
+/** Most layouts kept per simulation cache (one per rain layer and canvas size in use) */
+const MAX_SIMULATIONS = 16;
+
+/**
+ * Drop state kept between frames for playback, per layout and settings
+ */
+export interface DropSimulations {
+  /** Drops at a frame; playing forward continues from the last frame computed for the layout */
+  getDrops: (lanes: number, extent: number, seed: number, frame: number, options?: DropOptions) => Drop[];
+}
+
+/**
+ * Moves a drop's fall forward to the fall it is in at a frame
+ * Whole falls are skipped at once, so cost grows with wraps rather than frames
+ */
+function advanceFall(
+  initial: Drop,
+  fall: DropFall,
+  frame: number,
+  extent: number,
+  seed: number,
+  options: DropOptions
+): DropFall {
+  let { start, y, speed, wraps } = fall;
+  for (;;) {
+    const step = speed * options.speedFactor;
+    // A drop that does not move never wraps
+    if (step <= 0) break;
+    // Frames until the drop moves past the far edge
+    const framesToWrap = Math.floor((extent + initial.length - y) / step) + 1;
+    if (frame - start < framesToWrap) break;
+    start += framesToWrap;
+    wraps++;
+    y = -initial.length;
+    speed = lerpRange(options.speedMin, options.speedMax, hashRandom(seed, initial.x, wraps, CHANNEL_SPEED));
+  }
+  return { start, y, speed, wraps };
+}
+
+/**
+ * Positions a drop within its fall
+ */
+function dropInFall(initial: Drop, fall: DropFall, frame: number, options: DropOptions): Drop {
+  const step = fall.speed * options.speedFactor;
+  const y = step <= 0 ? fall.y : fall.y + (frame - fall.start) * step;
+  return { ...initial, y, speed: fall.speed };
+}
+
+/**
+ * Computes where the drops are at a given frame
+ * Each drop moves speed * speedFactor cells per frame; when it passes the end it restarts
+ * before the start with a new speed drawn from the seed and its wrap count.
+ * Whole wrap cycles are skipped at once, so cost grows with wraps rather than frames.
+ *
+ * @param initialDrops - Frame-0 layout from createDrops
+ * @param frame - Frame to compute (negative frames clamp to 0)
+ * @param extent - Cells along the fall direction
+ * @param seed - Project seed
+ * @param options - Speed and trail settings (same as used for createDrops)
+ * @returns New drop objects for the frame
+ */
+export function getDropsAtFrame(
+  initialDrops: Drop[],
+  frame: number,
+  extent: number,
+  seed: number,
+  options: DropOptions = DEFAULT_DROP_OPTIONS
+): Drop[] {
+  const target = Math.max(0, frame);
+  return initialDrops.map((initial) => {
+    const fall = advanceFall(initial, { start: 0, y: initial.y, speed: initial.speed, wraps: 0 }, target, extent, seed, options);
+    return dropInFall(initial, fall, target, options);
+  });
+}
+
+/**
+ * Creates a cache of drop simulations for one renderer
+ * Its getDrops gives the same result as getDropsAtFrame(createDrops(...)), but keeps the state
+ * of the last frame asked for per layout, so playing forward only advances it; earlier frames
+ * replay from frame 0. Each renderer that plays back needs its own cache, since another
+ * renderer asking for other frames would reset it
+ *
+ * @returns Empty simulation cache
+ *
+ * @example
+ * const simulations = createDropSimulations();
+ * const drops = simulations.getDrops(cols, rows, seed, frame, DEFAULT_DROP_OPTIONS);
+ */
+export function createDropSimulations(): DropSimulations {
+  // Simulations by layout and settings, least recently used first
+  const simulations = new Map<string, DropSimulation>();
+
+  const getDrops = (
+    lanes: number,
+    extent: number,
+    seed: number,
+    frame: number,
+    options: DropOptions = DEFAULT_DROP_OPTIONS
+  ): Drop[] => {
+    const target = Math.max(0, frame);
+    const key = [lanes, extent, seed, options.speedMin, options.speedMax, options.trailMin, options.trailMax, options.speedFactor].join(':');
+
+    let simulation = simulations.get(key);
+    simulations.delete(key);
+    if (!simulation || target < simulation.frame) {
+      const initialDrops = createDrops(lanes, extent, seed, options);
+      simulation = {
+        initialDrops,
+        falls: initialDrops.map(drop => ({ start: 0, y: drop.y, speed: drop.speed, wraps: 0 })),
+        frame: 0
+      };
+    }
+    const { initialDrops } = simulation;
+    const falls = simulation.falls.map((fall, i) => advanceFall(initialDrops[i], fall, target, extent, seed, options));
+
+    simulations.set(key, { initialDrops, falls, frame: target });
+    if (simulations.size > MAX_SIMULATIONS) {
+      simulations.delete(simulations.keys().next().value as string);
+    }
+    return initialDrops.map((initial, i) => dropInFall(initial, falls[i], target, options));
+  };
+
+  return { getDrops };
+}
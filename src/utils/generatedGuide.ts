@@ -0,0 +1,161 @@
+/**
+ * Shape guides generated in the app
+ * Text and SVG markup are rasterized into PNG data URLs, so they load, process
+ * and save exactly like uploaded images
+ */
+
+import type { TextGuideOptions } from '@/types';
+
+/** Longest side of rasterized SVG guides */
+const SVG_GUIDE_SIZE = 512;
+
+/** Longest side of rendered text guides (large text is scaled down to fit) */
+const TEXT_GUIDE_MAX_SIZE = 2048;
+
+/** Line height as a multiple of the font size */
+const LINE_HEIGHT = 1.2;
+
+/**
+ * Error for SVG markup that cannot be turned into a guide
+ */
+export class GuideSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GuideSourceError';
+  }
+}
+
+/**
+ * Width of a line of text including letter spacing
+ */
+function measureLine(ctx: CanvasRenderingContext2D, line: string, letterSpacing: number): number {
+  if (letterSpacing === 0) return ctx.measureText(line).width;
+  const chars = Array.from(line);
+  const width = chars.reduce((sum, char) => sum + ctx.measureText(char).width, 0);
+  return width + letterSpacing * Math.max(0, chars.length - 1);
+}
+
+/**
+ * Draws a line of text with letter spacing, starting at x
+ */
+function drawLine(ctx: CanvasRenderingContext2D, line: string, x: number, y: number, letterSpacing: number) {
+  if (letterSpacing === 0) {
+    ctx.fillText(line, x, y);
+    return;
+  }
+  let cursor = x;
+  for (const char of Array.from(line)) {
+    ctx.fillText(char, cursor, y);
+    cursor += ctx.measureText(char).width + letterSpacing;
+  }
+}
+
+/**
+ * Renders text as white glyphs on a transparent background
+ *
+ * @param options - Text and font settings
+ * @returns PNG data URL, or null if there is nothing to render
+ *
+ * @example
+ * const src = renderTextGuide({ text: 'HELLO', fontFamily: 'sans-serif', fontWeight: 900, fontSize: 200, letterSpacing: 0 });
+ */
+export function renderTextGuide(options: TextGuideOptions): string | null {
+  const lines = options.text.split('\n');
+  if (options.text.trim() === '') return null;
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const font = `${options.fontWeight} ${options.fontSize}px ${options.fontFamily}`;
+  ctx.font = font;
+  const lineHeight = options.fontSize * LINE_HEIGHT;
+  const padding = options.fontSize * 0.25;
+  const textWidth = Math.max(...lines.map(line => measureLine(ctx, line, options.letterSpacing)));
+  const width = textWidth + padding * 2;
+  const height = lineHeight * lines.length + padding * 2;
+  const scale = Math.min(1, TEXT_GUIDE_MAX_SIZE / width, TEXT_GUIDE_MAX_SIZE / height);
+
+  canvas.width = Math.max(1, Math.ceil(width * scale));
+  canvas.height = Math.max(1, Math.ceil(height * scale));
+
+  // Resizing resets the context state
+  ctx.scale(scale, scale);
+  ctx.font = font;
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, index) => {
+    const lineWidth = measureLine(ctx, line, options.letterSpacing);
+    const x = padding + (textWidth - lineWidth) / 2;
+    const y = padding + lineHeight * (index + 0.5);
+    drawLine(ctx, line, x, y, options.letterSpacing);
+  });
+
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Reads the intrinsic size of an SVG from its width/height or viewBox
+ */
+function getSvgSize(svg: Element): { width: number; height: number } {
+  const width = parseFloat(svg.getAttribute('width') ?? '');
+  const height = parseFloat(svg.getAttribute('height') ?? '');
+  if (width > 0 && height > 0) return { width, height };
+
+  const viewBox = (svg.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: viewBox[2], height: viewBox[3] };
+  }
+  return { width: SVG_GUIDE_SIZE, height: SVG_GUIDE_SIZE };
+}
+
+/**
+ * Rasterizes pasted SVG markup
+ * The SVG is scaled so its longest side is SVG_GUIDE_SIZE pixels
+ *
+ * @param markup - SVG document markup
+ * @returns PNG data URL
+ * @throws GuideSourceError if the markup is not a drawable SVG
+ *
+ * @example
+ * const src = await rasterizeSvgGuide('<svg viewBox="0 0 10 10"><circle cx="5" cy="5" r="4" fill="white"/></svg>');
+ */
+export async function rasterizeSvgGuide(markup: string): Promise<string> {
+  const doc = new DOMParser().parseFromString(markup.trim(), 'image/svg+xml');
+  const svg = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || svg.localName !== 'svg') {
+    throw new GuideSourceError('Not valid SVG markup');
+  }
+
+  // Give the image an explicit size so it decodes at the resolution we draw
+  const size = getSvgSize(svg);
+  const scale = SVG_GUIDE_SIZE / Math.max(size.width, size.height);
+  const width = Math.max(1, Math.round(size.width * scale));
+  const height = Math.max(1, Math.round(size.height * scale));
+  if (!svg.hasAttribute('viewBox')) {
+    svg.setAttribute('viewBox', `0 0 ${size.width} ${size.height}`);
+  }
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+
+  const blob = new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml' });
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new GuideSourceError('SVG could not be drawn'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new GuideSourceError('SVG could not be drawn');
+    ctx.drawImage(img, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
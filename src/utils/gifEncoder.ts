@@ -0,0 +1,267 @@
+/**
+ * Minimal animated GIF (GIF89a) encoder
+ * Encodes palette-indexed frames with LZW compression
+ */
+
+import type { RGB } from '@/types';
+
+/**
+ * Incremental GIF writer returned by createGifWriter
+ */
+export interface GifWriter {
+  /** Append a frame of palette indices (one byte per pixel) shown for delayMs */
+  addFrame: (indices: Uint8Array, delayMs: number) => void;
+  /** Finish the file and return it as a Blob */
+  finish: () => Blob;
+}
+
+/** Largest code the GIF LZW variant allows */
+const MAX_LZW_CODE = 4096;
+
+/**
+ * Collects bytes into fixed-size chunks so long animations don't need one huge buffer
+ */
+class ByteSink {
+  private chunks: Uint8Array<ArrayBuffer>[] = [];
+  private current: Uint8Array<ArrayBuffer> = new Uint8Array(64 * 1024);
+  private length = 0;
+
+  writeByte(value: number): void {
+    if (this.length === this.current.length) {
+      this.chunks.push(this.current);
+      this.current = new Uint8Array(this.current.length);
+      this.length = 0;
+    }
+    this.current[this.length++] = value;
+  }
+
+  writeShort(value: number): void {
+    this.writeByte(value & 0xff);
+    this.writeByte((value >> 8) & 0xff);
+  }
+
+  writeString(value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      this.writeByte(value.charCodeAt(i));
+    }
+  }
+
+  toBlob(): Blob {
+    const parts = [...this.chunks, this.current.slice(0, this.length)];
+    return new Blob(parts, { type: 'image/gif' });
+  }
+}
+
+/**
+ * Returns the number of bits needed to index the palette (GIF minimum is 1)
+ */
+function paletteBits(paletteLength: number): number {
+  let bits = 1;
+  while ((1 << bits) < paletteLength) bits++;
+  return bits;
+}
+
+/**
+ * LZW-compresses palette indices and writes them as GIF data sub-blocks
+ */
+function writeLzwData(sink: ByteSink, indices: Uint8Array, minCodeSize: number): void {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  // Pack variable-width codes into 255-byte sub-blocks
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (blockLength === 0) return;
+    sink.writeByte(blockLength);
+    for (let i = 0; i < blockLength; i++) sink.writeByte(block[i]);
+    blockLength = 0;
+  };
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bitBuffer & 0xff;
+      if (blockLength === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  sink.writeByte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_LZW_CODE) {
+      // Table full - reset the dictionary
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= (1 << codeSize)) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block[blockLength++] = bitBuffer & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  flushBlock();
+  sink.writeByte(0); // Block terminator
+}
+
+/**
+ * Creates an incremental animated GIF writer with a single global palette
+ *
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param palette - Global color table (up to 256 colors)
+ * @param loopCount - Number of repeats (0 = loop forever)
+ * @returns Writer that accepts indexed frames
+ *
+ * @example
+ * const writer = createGifWriter(100, 100, [[0, 0, 0], [0, 255, 159]], 0);
+ * writer.addFrame(indices, 50);
+ * const blob = writer.finish();
+ */
+export function createGifWriter(
+  width: number,
+  height: number,
+  palette: RGB[],
+  loopCount: number
+): GifWriter {
+  if (palette.length === 0 || palette.length > 256) {
+    throw new Error(`GIF palette must contain 1-256 colors, got ${palette.length}`);
+  }
+
+  const sink = new ByteSink();
+  const bits = paletteBits(palette.length);
+  const minCodeSize = Math.max(2, bits);
+
+  // Header and logical screen descriptor with a global color table
+  sink.writeString('GIF89a');
+  sink.writeShort(width);
+  sink.writeShort(height);
+  sink.writeByte(0x80 | ((bits - 1) << 4) | (bits - 1));
+  sink.writeByte(0); // Background color index
+  sink.writeByte(0); // Pixel aspect ratio
+
+  for (let i = 0; i < (1 << bits); i++) {
+    const [r, g, b] = palette[i] ?? [0, 0, 0];
+    sink.writeByte(r);
+    sink.writeByte(g);
+    sink.writeByte(b);
+  }
+
+  // NETSCAPE2.0 application extension controls looping
+  sink.writeByte(0x21);
+  sink.writeByte(0xff);
+  sink.writeByte(11);
+  sink.writeString('NETSCAPE2.0');
+  sink.writeByte(3);
+  sink.writeByte(1);
+  sink.writeShort(Math.max(0, Math.min(0xffff, Math.floor(loopCount))));
+  sink.writeByte(0);
+
+  const addFrame = (indices: Uint8Array, delayMs: number) => {
+    if (indices.length !== width * height) {
+      throw new Error(`GIF frame has ${indices.length} pixels, expected ${width * height}`);
+    }
+
+    // Graphic control extension (delay is in hundredths of a second)
+    sink.writeByte(0x21);
+    sink.writeByte(0xf9);
+    sink.writeByte(4);
+    sink.writeByte(0);
+    sink.writeShort(Math.max(2, Math.round(delayMs / 10)));
+    sink.writeByte(0);
+    sink.writeByte(0);
+
+    // Image descriptor covering the full canvas
+    sink.writeByte(0x2c);
+    sink.writeShort(0);
+    sink.writeShort(0);
+    sink.writeShort(width);
+    sink.writeShort(height);
+    sink.writeByte(0);
+
+    writeLzwData(sink, indices, minCodeSize);
+  };
+
+  const finish = () => {
+    sink.writeByte(0x3b); // Trailer
+    return sink.toBlob();
+  };
+
+  return {
+    addFrame,
+    finish
+  };
+}
+
+/**
+ * Maps RGBA pixels to the nearest palette entry
+ * Uses a cache keyed by the 24-bit color since rendered frames reuse few colors
+ *
+ * @param pixels - RGBA pixel data (e.g. from getImageData)
+ * @param palette - Palette to map onto
+ * @param cache - Color lookup cache shared between frames
+ * @returns One palette index per pixel
+ */
+export function mapToPalette(
+  pixels: Uint8ClampedArray,
+  palette: RGB[],
+  cache: Map<number, number>
+): Uint8Array {
+  const indices = new Uint8Array(pixels.length / 4);
+
+  for (let p = 0, i = 0; i < pixels.length; p++, i += 4) {
+    const r = pixels[i];
+    const g = pixels[i + 1];
+    const b = pixels[i + 2];
+    const key = (r << 16) | (g << 8) | b;
+
+    let index = cache.get(key);
+    if (index === undefined) {
+      let bestDistance = Infinity;
+      index = 0;
+      for (let c = 0; c < palette.length; c++) {
+        const dr = r - palette[c][0];
+        const dg = g - palette[c][1];
+        const db = b - palette[c][2];
+        const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          index = c;
+        }
+      }
+      cache.set(key, index);
+    }
+    indices[p] = index;
+  }
+
+  return indices;
+}
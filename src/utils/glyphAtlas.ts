@@ -0,0 +1,224 @@
+/**
+ * Glyph atlas rendering backend
+ * Glyphs and their glow are rasterized once into a shared atlas canvas and blitted with
+ * drawImage, instead of calling fillText with a shadowBlur for every cell
+ */
+
+import type { GlyphTarget, LayerConfig, RenderCanvas, RenderContext } from '@/types';
+import { calculateGlowBlur } from './colorUtils';
+import { getGlyphFontSize, getRenderContext } from './renderPatterns';
+
+/**
+ * Position of a rasterized glyph (or glow) in the atlas
+ */
+export interface AtlasSprite {
+  /** Left edge in the atlas */
+  x: number;
+  /** Top edge in the atlas */
+  y: number;
+  width: number;
+  height: number;
+  /** Offset of the glyph anchor (its center, as drawn with fillText) from the sprite's left edge */
+  anchorX: number;
+  /** Offset of the glyph anchor from the sprite's top edge */
+  anchorY: number;
+}
+
+/**
+ * Atlas of one font size and color
+ */
+export interface GlyphAtlas {
+  /** Canvas holding the sprites */
+  canvas: RenderCanvas;
+  /** Sprite of a glyph without glow */
+  getGlyph: (symbol: string) => AtlasSprite;
+  /** Sprite of a glyph's glow alone (the shadow fillText would draw with this blur) */
+  getGlow: (symbol: string, blur: number) => AtlasSprite;
+}
+
+/** Side of an atlas canvas in pixels */
+const ATLAS_SIZE = 1024;
+
+/** Atlases kept alive (least recently used are dropped first) */
+const MAX_ATLASES = 16;
+
+/** Glow is baked for this many brightness levels (plus off) */
+const GLOW_LEVELS = 16;
+
+/** Offset used to draw a shadow without its glyph: the glyph lands far outside the atlas */
+const SHADOW_ONLY_OFFSET = 4 * ATLAS_SIZE;
+
+/** Atlases by font size and color */
+const atlasCache = new Map<string, GlyphAtlas>();
+
+/**
+ * Creates a canvas in whichever form this thread supports
+ */
+function createAtlasCanvas(): RenderCanvas | null {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(ATLAS_SIZE, ATLAS_SIZE);
+  }
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = ATLAS_SIZE;
+    canvas.height = ATLAS_SIZE;
+    return canvas;
+  }
+  return null;
+}
+
+/**
+ * Creates an empty atlas that rasterizes sprites on first use
+ * Sprites are packed in shelves; when the atlas is full it is cleared and refilled
+ */
+function createGlyphAtlas(fontSize: number, color: string): GlyphAtlas | null {
+  const canvas = createAtlasCanvas();
+  const ctx = canvas && getRenderContext(canvas);
+  if (!canvas || !ctx) return null;
+
+  const sprites = new Map<string, AtlasSprite>();
+  let shelfX = 0;
+  let shelfY = 0;
+  let shelfHeight = 0;
+
+  const reset = () => {
+    ctx.clearRect(0, 0, ATLAS_SIZE, ATLAS_SIZE);
+    sprites.clear();
+    shelfX = 0;
+    shelfY = 0;
+    shelfHeight = 0;
+  };
+
+  /**
+   * Reserves space for a sprite, with a 1px gap so smoothing never samples a neighbor
+   */
+  const allocate = (width: number, height: number): { x: number; y: number } => {
+    if (shelfX + width > ATLAS_SIZE) {
+      shelfX = 0;
+      shelfY += shelfHeight + 1;
+      shelfHeight = 0;
+    }
+    if (shelfY + height > ATLAS_SIZE) reset();
+    const position = { x: shelfX, y: shelfY };
+    shelfX += width + 1;
+    shelfHeight = Math.max(shelfHeight, height);
+    return position;
+  };
+
+  /**
+   * Rasterizes a glyph (blur 0) or its glow alone (blur > 0) into a new sprite
+   */
+  const rasterize = (symbol: string, blur: number): AtlasSprite => {
+    ctx.font = `${fontSize}px monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const metrics = ctx.measureText(symbol);
+
+    // A Gaussian shadow of this blur fades out within 1.5 × blur pixels
+    const pad = Math.ceil(blur * 1.5) + 1;
+    const anchorX = Math.max(0, Math.ceil(metrics.actualBoundingBoxLeft)) + pad;
+    const anchorY = Math.max(0, Math.ceil(metrics.actualBoundingBoxAscent)) + pad;
+    const width = Math.min(ATLAS_SIZE, anchorX + Math.max(0, Math.ceil(metrics.actualBoundingBoxRight)) + pad);
+    const height = Math.min(ATLAS_SIZE, anchorY + Math.max(0, Math.ceil(metrics.actualBoundingBoxDescent)) + pad);
+    const { x, y } = allocate(width, height);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, width, height);
+    ctx.clip();
+    ctx.fillStyle = color;
+    if (blur > 0) {
+      ctx.shadowColor = color;
+      ctx.shadowBlur = blur;
+      ctx.shadowOffsetX = SHADOW_ONLY_OFFSET;
+      ctx.fillText(symbol, x + anchorX - SHADOW_ONLY_OFFSET, y + anchorY);
+    } else {
+      ctx.fillText(symbol, x + anchorX, y + anchorY);
+    }
+    ctx.restore();
+
+    return { x, y, width, height, anchorX, anchorY };
+  };
+
+  const getSprite = (symbol: string, blur: number): AtlasSprite => {
+    const key = `${blur}:${symbol}`;
+    let sprite = sprites.get(key);
+    if (!sprite) {
+      sprite = rasterize(symbol, blur);
+      sprites.set(key, sprite);
+    }
+    return sprite;
+  };
+
+  return {
+    canvas,
+    getGlyph: (symbol) => getSprite(symbol, 0),
+    getGlow: (symbol, blur) => getSprite(symbol, blur)
+  };
+}
+
+/**
+ * Gets the shared atlas for a font size and color
+ *
+ * @param fontSize - Font size in pixels
+ * @param color - Glyph and glow color
+ * @returns Atlas, or null if no canvas is available
+ */
+export function getGlyphAtlas(fontSize: number, color: string): GlyphAtlas | null {
+  const key = `${fontSize}:${color}`;
+  let atlas = atlasCache.get(key);
+  if (atlas) {
+    // Move to the back of the eviction order
+    atlasCache.delete(key);
+  } else {
+    atlas = createGlyphAtlas(fontSize, color) ?? undefined;
+    if (!atlas) return null;
+    if (atlasCache.size >= MAX_ATLASES) {
+      atlasCache.delete(atlasCache.keys().next().value as string);
+    }
+  }
+  atlasCache.set(key, atlas);
+  return atlas;
+}
+
+/**
+ * Creates a glyph target that blits pre-rasterized glyphs from an atlas
+ * Matches the fillText target: the glow is drawn first and the glyph over it, both at the
+ * glyph's alpha. Glow radii are baked for GLOW_LEVELS brightness levels, so very close
+ * brightnesses share a glow
+ *
+ * @param ctx - Canvas context to draw on
+ * @param layerConfig - Layer configuration providing color, cell size and glow settings
+ * @returns Glyph target drawing with drawImage (or null if no atlas canvas is available)
+ *
+ * @example
+ * const target = createAtlasGlyphTarget(ctx, layer.config) ?? createCanvasGlyphTarget(ctx, layer.config);
+ */
+export function createAtlasGlyphTarget(ctx: RenderContext, layerConfig: LayerConfig): GlyphTarget | null {
+  const atlas = getGlyphAtlas(getGlyphFontSize(layerConfig.cellSize), layerConfig.color);
+  if (!atlas) return null;
+
+  ctx.shadowBlur = 0;
+
+  const blit = (sprite: AtlasSprite, x: number, y: number) => {
+    ctx.drawImage(
+      atlas.canvas,
+      sprite.x, sprite.y, sprite.width, sprite.height,
+      x - sprite.anchorX, y - sprite.anchorY, sprite.width, sprite.height
+    );
+  };
+
+  return {
+    drawGlyph: (symbol, x, y, brightness) => {
+      // Same 8-bit alpha as the color suffix the fillText target uses
+      ctx.globalAlpha = Math.floor(Math.min(1, brightness) * 255) / 255;
+
+      if (layerConfig.glowEffect) {
+        const level = Math.round(brightness * GLOW_LEVELS) / GLOW_LEVELS;
+        const blur = calculateGlowBlur(layerConfig.glowIntensity, level, layerConfig.glowRadius);
+        if (blur > 0) blit(atlas.getGlow(symbol, blur), x, y);
+      }
+      blit(atlas.getGlyph(symbol), x, y);
+    }
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Glyph ink coverage
+ * Measures how much of its cell a glyph covers, so symbols can be picked by brightness
+ */
+
+/**
+ * A symbol and its ink coverage
+ */
+export interface GlyphRampEntry {
+  symbol: string;
+  /** Coverage normalized over the ramp (0 = lightest glyph, 1 = densest glyph) */
+  coverage: number;
+}
+
+/** Coverage per font and symbol */
+const coverageCache = new Map<string, number>();
+/** Sorted ramps per font and symbol set */
+const rampCache = new Map<string, GlyphRampEntry[]>();
+
+/** Lazily created canvas used for measuring */
+let measureContext: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null | undefined;
+
+function getMeasureContext(): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null {
+  if (measureContext === undefined) {
+    if (typeof OffscreenCanvas !== 'undefined') {
+      measureContext = new OffscreenCanvas(1, 1).getContext('2d', { willReadFrequently: true });
+    } else if (typeof document !== 'undefined') {
+      measureContext = document.createElement('canvas').getContext('2d', { willReadFrequently: true });
+    } else {
+      measureContext = null;
+    }
+  }
+  return measureContext;
+}
+
+/**
+ * Measures the fraction of a glyph cell covered by ink
+ * The glyph is drawn centered in a square cell of the font size, as in the pattern grid
+ *
+ * @param symbol - Glyph to measure
+ * @param fontSize - Font size in pixels
+ * @returns Coverage (0-1), or null if no canvas is available for measuring
+ */
+export function measureGlyphCoverage(symbol: string, fontSize: number): number | null {
+  const key = `${fontSize}:${symbol}`;
+  const cached = coverageCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const ctx = getMeasureContext();
+  if (!ctx) return null;
+
+  const size = Math.max(1, Math.ceil(fontSize));
+  if (ctx.canvas.width !== size || ctx.canvas.height !== size) {
+    ctx.canvas.width = size;
+    ctx.canvas.height = size;
+  }
+  ctx.clearRect(0, 0, size, size);
+  ctx.font = `${fontSize}px monospace`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(symbol, size / 2, size / 2);
+
+  const data = ctx.getImageData(0, 0, size, size).data;
+  let ink = 0;
+  for (let i = 3; i < data.length; i += 4) {
+    ink += data[i];
+  }
+  const coverage = ink / (255 * size * size);
+  coverageCache.set(key, coverage);
+  return coverage;
+}
+
+/**
+ * Sorts the symbols of a symbol set from lightest to densest
+ * Duplicate symbols are dropped. Without a canvas (e.g. in tests) the set's own order is used.
+ *
+ * @param symbolSet - Symbols of the layer
+ * @param fontSize - Font size the glyphs are drawn at
+ * @param includeBlank - Add an empty cell as the lightest entry
+ * @returns Entries sorted by coverage, normalized so the ramp spans 0-1
+ *
+ * @example
+ * const ramp = getGlyphRamp('.:-=+*#%@', 10, true);
+ * pickGlyph(ramp, 0.9).symbol // '@' or '%'
+ */
+export function getGlyphRamp(symbolSet: string, fontSize: number, includeBlank: boolean): GlyphRampEntry[] {
+  const key = `${fontSize}:${includeBlank ? 1 : 0}:${symbolSet}`;
+  const cached = rampCache.get(key);
+  if (cached) return cached;
+
+  const symbols = Array.from(new Set(symbolSet.split('')));
+  const measured = symbols.map((symbol, index) => ({
+    symbol,
+    coverage: measureGlyphCoverage(symbol, fontSize) ?? (index + 1) / symbols.length
+  }));
+  if (includeBlank) {
+    measured.push({ symbol: '', coverage: 0 });
+  }
+  measured.sort((a, b) => a.coverage - b.coverage);
+
+  const min = measured[0]?.coverage ?? 0;
+  const range = (measured[measured.length - 1]?.coverage ?? 0) - min;
+  const ramp = measured.map(entry => ({
+    symbol: entry.symbol,
+    coverage: range > 0 ? (entry.coverage - min) / range : 1
+  }));
+  rampCache.set(key, ramp);
+  return ramp;
+}
+
+/**
+ * Finds the ramp entry whose coverage is closest to a brightness value
+ *
+ * @param ramp - Ramp from getGlyphRamp (must not be empty)
+ * @param value - Target brightness (0-1)
+ * @returns Closest entry
+ */
+export function pickGlyph(ramp: GlyphRampEntry[], value: number): GlyphRampEntry {
+  // Binary search for the first entry at or above the value
+  let low = 0;
+  let high = ramp.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ramp[mid].coverage < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  if (low > 0 && value - ramp[low - 1].coverage < ramp[low].coverage - value) {
+    return ramp[low - 1];
+  }
+  return ramp[low];
+}
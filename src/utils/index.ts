@@ -4,5 +4,25 @@
 
 export * from './constants';
 export * from './colorUtils';
+export * from './canvasSize';
+export * from './bloom';
+export * from './postEffects';
+export * from './shapeSampling';
+export * from './shapeProcessing';
+export * from './videoGuide';
+export * from './generatedGuide';
+export * from './drops';
+export * from './random';
+export * from './dither';
+export * from './glyphCoverage';
+export * from './glyphAtlas';
 export * from './renderPatterns';
-
+export * from './renderComparison';
+export * from './webglRenderer';
+export * from './patternRegistry';
+export * from './gifEncoder';
+export * from './download';
+export * from './recording';
+export * from './svgExport';
+export * from './projectFile';
+export * from './shareUrl';
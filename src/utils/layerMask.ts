@@ -0,0 +1,73 @@
+/**
+ * Layer masks: a mask layer is not drawn itself but clips the next visible layer above it
+ */
+
+import type { Layer, RenderCanvas } from '@/types';
+import { getRenderContext } from './renderPatterns';
+
+/**
+ * Whether a layer acts as a mask
+ */
+export function isMaskLayer(layer: Layer): boolean {
+  return layer.maskMode !== 'none';
+}
+
+/**
+ * Finds the layer clipped by a mask layer: the next visible layer above it
+ * A mask directly followed by another mask has no target (the nearest mask wins)
+ *
+ * @param layers - Layers in bottom-to-top order
+ * @param maskIndex - Index of the mask layer
+ * @returns Masked layer, or null if nothing is clipped
+ */
+export function findMaskTarget(layers: Layer[], maskIndex: number): Layer | null {
+  const target = layers.slice(maskIndex + 1).find(layer => layer.visible);
+  return target && !isMaskLayer(target) ? target : null;
+}
+
+/**
+ * Clips a rendered layer with a rendered mask layer (both transparent-background canvases)
+ * Luminance masks first convert the mask into an alpha channel on the scratch canvas
+ *
+ * @param layerCanvas - Canvas of the layer being clipped (modified in place)
+ * @param maskCanvas - Canvas of the mask layer
+ * @param mask - Mask layer (mode and inversion)
+ * @param scratch - Reusable canvas for luminance conversion
+ *
+ * @example
+ * applyLayerMask(layerCanvas, maskCanvas, maskLayer, scratchCanvas);
+ */
+export function applyLayerMask(
+  layerCanvas: RenderCanvas,
+  maskCanvas: RenderCanvas,
+  mask: Layer,
+  scratch: RenderCanvas
+): void {
+  const ctx = getRenderContext(layerCanvas);
+  if (!ctx) return;
+
+  let source = maskCanvas;
+  if (mask.maskMode === 'luminance') {
+    const maskCtx = getRenderContext(maskCanvas);
+    const scratchCtx = getRenderContext(scratch);
+    if (!maskCtx || !scratchCtx) return;
+
+    if (scratch.width !== maskCanvas.width || scratch.height !== maskCanvas.height) {
+      scratch.width = maskCanvas.width;
+      scratch.height = maskCanvas.height;
+    }
+    const imageData = maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+      // Rec. 601 luma, weighted by coverage
+      const luma = (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) / 255;
+      data[i + 3] = Math.round(data[i + 3] * luma);
+    }
+    scratchCtx.putImageData(imageData, 0, 0);
+    source = scratch;
+  }
+
+  ctx.globalCompositeOperation = mask.maskInvert ? 'destination-out' : 'destination-in';
+  ctx.drawImage(source, 0, 0);
+  ctx.globalCompositeOperation = 'source-over';
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { LayerConfig, PatternId } from '@/types';
+import { DEFAULT_LAYER_CONFIG } from './constants';
+import { getLoopPeriod } from './patternRegistry';
+
+const layerConfig = (pattern: PatternId, params = {}): LayerConfig => ({
+  ...DEFAULT_LAYER_CONFIG,
+  pattern,
+  patternParams: { [pattern]: params }
+});
+
+describe('getLoopPeriod', () => {
+  it('loops every frame when no layer changes over time', () => {
+    expect(getLoopPeriod([layerConfig('dither'), layerConfig('ascii')])).toBe(1);
+    expect(getLoopPeriod([layerConfig('wave', { speed: 0 })])).toBe(1);
+  });
+
+  it('uses the period of the animated layers alongside static ones', () => {
+    expect(getLoopPeriod([layerConfig('dither'), layerConfig('wave')]))
+      .toBeCloseTo(getLoopPeriod([layerConfig('wave')])!);
+    expect(getLoopPeriod([layerConfig('wave')])).toBeCloseTo((2 * Math.PI) / 0.03);
+  });
+
+  it('reports aperiodic patterns, animated guides and video guides', () => {
+    expect(getLoopPeriod([layerConfig('dither'), layerConfig('rain')])).toBeNull();
+    expect(getLoopPeriod([{ ...layerConfig('dither'), proceduralGuide: 'perlin', proceduralSpeed: 1 }])).toBeNull();
+    expect(getLoopPeriod([layerConfig('dither')], true)).toBeNull();
+    expect(getLoopPeriod([])).toBeNull();
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Pattern registry
+ * Each pattern declares its id, label, renderer, default parameters and parameter schema;
+ * the renderer, exports and PatternControls only go through this registry
+ */
+
+import type { LayerConfig, PatternId, PatternParams, PatternParamSchema } from '@/types';
+import {
+  type RenderPatternParams,
+  type RainOptions,
+  type WaveOptions,
+  type GlitchOptions,
+  type PulseOptions,
+  type DitherOptions,
+  type AsciiOptions,
+  renderRainPattern,
+  renderWavePattern,
+  renderStaticPattern,
+  renderGlitchPattern,
+  renderPulsePattern,
+  renderDitherPattern,
+  renderAsciiPattern
+} from './renderPatterns';
+import { DEFAULT_DROP_OPTIONS } from './drops';
+import { DITHER_ALGORITHMS } from './dither';
+
+/**
+ * A registered pattern
+ */
+export interface PatternDefinition<P extends PatternParams = PatternParams> {
+  /** Unique id stored in LayerConfig.pattern */
+  id: PatternId;
+  /** Name shown in the pattern selector */
+  label: string;
+  /** Parameter values used when a layer has no override */
+  defaultParams: P;
+  /** Parameters exposed in PatternControls */
+  paramSchema: PatternParamSchema[];
+  /** Emits the layer's glyphs for one frame */
+  render: (params: RenderPatternParams, patternParams: P) => void;
+  /**
+   * Angular frequency of the animation in radians per frame, 0 when the output does not
+   * change over time, or null when the pattern never repeats exactly (used for seamless
+   * loops). Omit for aperiodic patterns.
+   */
+  getLoopRate?: (patternParams: P) => number | null;
+}
+
+const registry = new Map<string, PatternDefinition>();
+
+/**
+ * Adds a pattern to the registry (replacing any pattern with the same id)
+ *
+ * @param definition - Pattern to register
+ *
+ * @example
+ * registerPattern({
+ *   id: 'checker',
+ *   label: 'Checker',
+ *   defaultParams: { size: 2 },
+ *   paramSchema: [{ type: 'number', key: 'size', label: 'Size', min: 1, max: 8, step: 1 }],
+ *   render: (params, { size }) => { ... }
+ * });
+ */
+export function registerPattern<P extends PatternParams>(definition: PatternDefinition<P>): void {
+  registry.set(definition.id, definition as unknown as PatternDefinition);
+}
+
+/**
+ * Looks up a pattern by id
+ *
+ * @returns The pattern, or undefined if no pattern with that id is registered
+ */
+export function getPattern(id: PatternId): PatternDefinition | undefined {
+  return registry.get(id);
+}
+
+/**
+ * All registered patterns in registration order
+ */
+export function getPatterns(): PatternDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Merges a layer's parameter overrides for its pattern over the pattern defaults
+ * Overrides of the wrong type (e.g. from an older project) are ignored
+ *
+ * @param config - Layer configuration
+ * @returns Complete parameter values for the layer's pattern
+ */
+export function resolvePatternParams(config: LayerConfig): PatternParams {
+  const definition = getPattern(config.pattern);
+  if (!definition) return {};
+
+  const overrides = config.patternParams[config.pattern] ?? {};
+  const resolved: PatternParams = { ...definition.defaultParams };
+  Object.keys(resolved).forEach((key) => {
+    const value = overrides[key];
+    if (typeof value === typeof resolved[key]) {
+      resolved[key] = value;
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Renders a layer's pattern through the registry
+ * Layers with an unknown pattern id render nothing
+ *
+ * @param params - Rendering parameters
+ */
+export function renderLayerPattern(params: RenderPatternParams): void {
+  const config = params.layer.config;
+  getPattern(config.pattern)?.render(params, resolvePatternParams(config));
+}
+
+/**
+ * Computes the number of frames after which all given layers repeat together
+ * Rates are treated as rationals (4 decimal places) so the common period is
+ * 2π divided by the greatest common divisor of the rates; layers that do not change
+ * over time repeat with any period, so only static layers loop every frame
+ *
+ * @param configs - Configurations of the layers that are visible together
+ * @param hasVideoGuide - Whether any of those layers follows a video or camera guide
+ * (footage does not loop with the patterns)
+ * @returns Loop period in (possibly fractional) frames, or null if any pattern (or animated
+ * procedural guide, or video guide) is aperiodic
+ *
+ * @example
+ * getLoopPeriod([waveConfig]) // ~209.44 frames with default wave parameters
+ * getLoopPeriod([waveConfig, pulseConfig]) // ~628.32 frames
+ * getLoopPeriod([ditherConfig]) // 1 frame
+ */
+export function getLoopPeriod(configs: LayerConfig[], hasVideoGuide = false): number | null {
+  if (configs.length === 0 || hasVideoGuide) return null;
+
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const scale = 10000;
+  let rateGcd = 0;
+
+  for (const config of configs) {
+    if (config.proceduralGuide !== 'none' && config.proceduralSpeed !== 0) return null;
+    const rate = getPattern(config.pattern)?.getLoopRate?.(resolvePatternParams(config)) ?? null;
+    if (rate === null) return null;
+    const scaledRate = Math.round(Math.abs(rate) * scale);
+    // Rates too slow to tell from 0 would need an impractically long loop
+    if (scaledRate === 0 && rate !== 0) return null;
+    rateGcd = gcd(scaledRate, rateGcd);
+  }
+
+  if (rateGcd === 0) return 1;
+  return (2 * Math.PI) / (rateGcd / scale);
+}
+
+// Built-in patterns (defaults reproduce the original hardcoded behavior)
+
+registerPattern<RainOptions>({
+  id: 'rain',
+  label: 'Rain',
+  defaultParams: { direction: 'down', ...DEFAULT_DROP_OPTIONS },
+  paramSchema: [
+    {
+      type: 'select',
+      key: 'direction',
+      label: 'Direction',
+      options: [
+        { value: 'down', label: 'Down' },
+        { value: 'up', label: 'Up' },
+        { value: 'left', label: 'Left' },
+        { value: 'right', label: 'Right' }
+      ]
+    },
+    { type: 'number', key: 'speedMin', label: 'Min Speed', min: 0.1, max: 5, step: 0.1 },
+    { type: 'number', key: 'speedMax', label: 'Max Speed', min: 0.1, max: 5, step: 0.1 },
+    { type: 'number', key: 'trailMin', label: 'Min Trail', min: 1, max: 60, step: 1, unit: ' cells' },
+    { type: 'number', key: 'trailMax', label: 'Max Trail', min: 1, max: 60, step: 1, unit: ' cells' },
+    {
+      type: 'number',
+      key: 'speedFactor',
+      label: 'Speed Factor',
+      min: 0.05,
+      max: 1,
+      step: 0.05,
+      description: 'Cells moved per frame per unit of speed'
+    }
+  ],
+  render: renderRainPattern
+});
+
+registerPattern<WaveOptions>({
+  id: 'wave',
+  label: 'Wave',
+  defaultParams: { direction: 0, frequency: 0.3, amplitude: 1, speed: 0.1 },
+  paramSchema: [
+    { type: 'number', key: 'direction', label: 'Direction', min: 0, max: 360, step: 5, unit: '°' },
+    { type: 'number', key: 'frequency', label: 'Frequency', min: 0.05, max: 1, step: 0.05 },
+    { type: 'number', key: 'amplitude', label: 'Amplitude', min: 0, max: 2, step: 0.05 },
+    { type: 'number', key: 'speed', label: 'Speed', min: 0, max: 1, step: 0.01 }
+  ],
+  render: renderWavePattern,
+  // sin((u + frame * speed) * frequency) advances speed * frequency rad per frame
+  getLoopRate: ({ speed, frequency }) => speed * frequency
+});
+
+registerPattern({
+  id: 'static',
+  label: 'Static',
+  defaultParams: {},
+  paramSchema: [],
+  render: renderStaticPattern
+});
+
+registerPattern<GlitchOptions>({
+  id: 'glitch',
+  label: 'Glitch',
+  defaultParams: {
+    cycleLength: 80,
+    burstLength: 5,
+    secondBurstAt: 30,
+    glitchChance: 0.15,
+    displacementX: 30,
+    displacementY: 10
+  },
+  paramSchema: [
+    { type: 'number', key: 'cycleLength', label: 'Cycle Length', min: 10, max: 300, step: 5, unit: ' frames' },
+    { type: 'number', key: 'burstLength', label: 'Burst Length', min: 1, max: 50, step: 1, unit: ' frames' },
+    {
+      type: 'number',
+      key: 'secondBurstAt',
+      label: 'Second Burst At',
+      min: 0,
+      max: 300,
+      step: 5,
+      unit: ' frames',
+      description: '0 = one burst per cycle'
+    },
+    { type: 'number', key: 'glitchChance', label: 'Glitch Amount', min: 0, max: 1, step: 0.05 },
+    { type: 'number', key: 'displacementX', label: 'Horizontal Displacement', min: 0, max: 100, step: 1, unit: 'px' },
+    { type: 'number', key: 'displacementY', label: 'Vertical Displacement', min: 0, max: 100, step: 1, unit: 'px' }
+  ],
+  render: renderGlitchPattern
+});
+
+registerPattern<PulseOptions>({
+  id: 'pulse',
+  label: 'Pulse',
+  defaultParams: { originX: 0.5, originY: 0.5, rate: 0.05, rings: 0 },
+  paramSchema: [
+    { type: 'number', key: 'originX', label: 'Origin X', min: 0, max: 1, step: 0.05 },
+    { type: 'number', key: 'originY', label: 'Origin Y', min: 0, max: 1, step: 0.05 },
+    { type: 'number', key: 'rate', label: 'Rate', min: 0.005, max: 0.3, step: 0.005 },
+    {
+      type: 'number',
+      key: 'rings',
+      label: 'Rings',
+      min: 0,
+      max: 10,
+      step: 1,
+      description: '0 = the whole area pulses together'
+    }
+  ],
+  render: renderPulsePattern,
+  // sin(frame * rate)
+  getLoopRate: ({ rate }) => rate
+});
+
+registerPattern<DitherOptions>({
+  id: 'dither',
+  label: 'Dither',
+  defaultParams: { algorithm: 'floyd-steinberg', levels: 2, serpentine: true, symbols: 'random' },
+  paramSchema: [
+    { type: 'select', key: 'algorithm', label: 'Algorithm', options: DITHER_ALGORITHMS },
+    {
+      type: 'number',
+      key: 'levels',
+      label: 'Levels',
+      min: 2,
+      max: 8,
+      step: 1,
+      description: 'Brightness levels including empty cells'
+    },
+    {
+      type: 'boolean',
+      key: 'serpentine',
+      label: 'Serpentine Scan',
+      description: 'Alternate row direction (Floyd–Steinberg and Atkinson)'
+    },
+    {
+      type: 'select',
+      key: 'symbols',
+      label: 'Symbols',
+      options: [
+        { value: 'random', label: 'Random' },
+        { value: 'level', label: 'By Level' }
+      ]
+    }
+  ],
+  render: renderDitherPattern,
+  // Dithering depends only on the guide, not the frame
+  getLoopRate: () => 0
+});
+
+registerPattern<AsciiOptions>({
+  id: 'ascii',
+  label: 'ASCII Art',
+  defaultParams: { invert: false, contrast: 1, blank: true },
+  paramSchema: [
+    {
+      type: 'boolean',
+      key: 'invert',
+      label: 'Invert',
+      description: 'Dense glyphs for dark areas (for light backgrounds)'
+    },
+    { type: 'number', key: 'contrast', label: 'Contrast', min: 0.2, max: 3, step: 0.1 },
+    {
+      type: 'boolean',
+      key: 'blank',
+      label: 'Empty Darkest Cells',
+      description: 'Use an empty cell as the lightest glyph'
+    }
+  ],
+  render: renderAsciiPattern,
+  // ASCII art depends only on the guide, not the frame
+  getLoopRate: () => 0
+});
@@ -0,0 +1,473 @@
+/**
+ * Post-effect registry
+ * CRT / retro effects applied to the composited frame. Each effect declares its id, label,
+ * default parameters and parameter schema; the stack order and toggles are project settings
+ */
+
+import type { PatternParams, PatternParamSchema, PostEffectId, PostEffectSettings, RenderCanvas, RenderContext } from '@/types';
+import { getRenderContext } from './renderPatterns';
+import { hashRandom } from './random';
+
+/**
+ * A scratch canvas with its context
+ */
+interface Scratch {
+  canvas: RenderCanvas;
+  ctx: RenderContext;
+}
+
+/**
+ * What an effect gets to work with
+ */
+export interface PostEffectContext {
+  /** Frame being post-processed */
+  canvas: RenderCanvas;
+  ctx: RenderContext;
+  width: number;
+  height: number;
+  /** Frame number */
+  frame: number;
+  /** Project seed (for deterministic noise) */
+  seed: number;
+  /**
+   * Scratch canvas of the frame size, kept between frames per effect and name
+   * Its contents survive as long as the frame size does not change
+   */
+  getScratch: (name: string, options?: CanvasRenderingContext2DSettings) => Scratch | null;
+  /** Creates a canvas of any other size (for effects keeping their own in state) */
+  createCanvas: () => RenderCanvas;
+  /** Per-effect values kept between frames */
+  state: Record<string, unknown>;
+}
+
+/**
+ * A registered post effect
+ */
+export interface PostEffectDefinition<P extends PatternParams = PatternParams> {
+  /** Unique id stored in PostEffectSettings.id */
+  id: PostEffectId;
+  /** Name shown in the effect stack */
+  label: string;
+  /** Parameter values used when the stack entry has none */
+  defaultParams: P;
+  /** Parameters exposed in PostProcessingSection */
+  paramSchema: PatternParamSchema[];
+  /** Applies the effect to the frame in place */
+  apply: (context: PostEffectContext, params: P) => void;
+}
+
+/**
+ * Runs a post-effect stack with reusable scratch canvases
+ */
+export interface PostEffectPipeline {
+  /** Apply the enabled effects of a stack to a frame, in order */
+  apply: (target: RenderCanvas, effects: PostEffectSettings[], frame: number, seed: number) => void;
+}
+
+/** Side of the film grain noise tile in pixels */
+const GRAIN_TILE_SIZE = 128;
+
+const registry = new Map<string, PostEffectDefinition>();
+
+/**
+ * Adds a post effect to the registry (replacing any effect with the same id)
+ * New effects join the end of the default stack
+ *
+ * @param definition - Effect to register
+ *
+ * @example
+ * registerPostEffect({
+ *   id: 'invert',
+ *   label: 'Invert',
+ *   defaultParams: {},
+ *   paramSchema: [],
+ *   apply: ({ ctx, width, height }) => { ... }
+ * });
+ */
+export function registerPostEffect<P extends PatternParams>(definition: PostEffectDefinition<P>): void {
+  registry.set(definition.id, definition as unknown as PostEffectDefinition);
+}
+
+/**
+ * Looks up a post effect by id
+ *
+ * @returns The effect, or undefined if no effect with that id is registered
+ */
+export function getPostEffect(id: PostEffectId): PostEffectDefinition | undefined {
+  return registry.get(id);
+}
+
+/**
+ * All registered post effects in registration order
+ */
+export function getPostEffects(): PostEffectDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Default stack: every registered effect, disabled, in registration order
+ */
+export function createDefaultPostEffects(): PostEffectSettings[] {
+  return getPostEffects().map(effect => ({ id: effect.id, enabled: false, params: { ...effect.defaultParams } }));
+}
+
+/**
+ * Merges a stack entry's parameters over the effect defaults
+ * Values of the wrong type are ignored
+ *
+ * @param settings - Stack entry
+ * @returns Complete parameter values for the effect
+ */
+export function resolvePostEffectParams(settings: PostEffectSettings): PatternParams {
+  const definition = getPostEffect(settings.id);
+  if (!definition) return {};
+
+  const resolved: PatternParams = { ...definition.defaultParams };
+  Object.keys(resolved).forEach((key) => {
+    const value = settings.params[key];
+    if (typeof value === typeof resolved[key]) {
+      resolved[key] = value;
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Creates a post-effect pipeline
+ *
+ * @param createCanvas - Creates a scratch canvas (a canvas element or an OffscreenCanvas)
+ * @returns Pipeline
+ *
+ * @example
+ * const pipeline = createPostEffectPipeline(() => document.createElement('canvas'));
+ * pipeline.apply(canvas, postEffects, frame, seed);
+ */
+export function createPostEffectPipeline(createCanvas: () => RenderCanvas): PostEffectPipeline {
+  const scratches = new Map<string, Scratch>();
+  const states = new Map<string, Record<string, unknown>>();
+
+  const apply = (target: RenderCanvas, effects: PostEffectSettings[], frame: number, seed: number) => {
+    const ctx = getRenderContext(target);
+    const { width, height } = target;
+    if (!ctx || width === 0 || height === 0) return;
+
+    effects.forEach((settings) => {
+      const definition = getPostEffect(settings.id);
+      if (!settings.enabled || !definition) return;
+
+      let state = states.get(settings.id);
+      if (!state) {
+        state = {};
+        states.set(settings.id, state);
+      }
+
+      const getScratch = (name: string, options?: CanvasRenderingContext2DSettings) => {
+        const key = `${settings.id}:${name}`;
+        let scratch = scratches.get(key);
+        if (!scratch) {
+          const canvas = createCanvas();
+          const scratchCtx = getRenderContext(canvas, options);
+          if (!scratchCtx) return null;
+          scratch = { canvas, ctx: scratchCtx };
+          scratches.set(key, scratch);
+        }
+        if (scratch.canvas.width !== width || scratch.canvas.height !== height) {
+          scratch.canvas.width = width;
+          scratch.canvas.height = height;
+        }
+        return scratch;
+      };
+
+      ctx.save();
+      definition.apply(
+        { canvas: target, ctx, width, height, frame, seed, getScratch, createCanvas, state },
+        resolvePostEffectParams(settings)
+      );
+      ctx.restore();
+    });
+  };
+
+  return { apply };
+}
+
+/**
+ * Redraws the frame with its red, green and blue channels placed separately
+ * Channels are isolated by multiplying copies with pure red/green/blue and summed with 'lighter'
+ *
+ * @param context - Effect context
+ * @param place - Offset and scale (about the center) of each channel (0 = red, 1 = green, 2 = blue)
+ */
+function drawChannelsApart(
+  context: PostEffectContext,
+  place: (channel: number) => { dx: number; dy: number; scale: number }
+): void {
+  const { canvas, ctx, width, height, getScratch } = context;
+  const sum = getScratch('sum');
+  const channel = getScratch('channel');
+  if (!sum || !channel) return;
+
+  sum.ctx.globalCompositeOperation = 'source-over';
+  sum.ctx.fillStyle = '#000000';
+  sum.ctx.fillRect(0, 0, width, height);
+
+  ['#ff0000', '#00ff00', '#0000ff'].forEach((color, index) => {
+    const { dx, dy, scale } = place(index);
+    const drawWidth = width * scale;
+    const drawHeight = height * scale;
+
+    channel.ctx.globalCompositeOperation = 'source-over';
+    channel.ctx.fillStyle = '#000000';
+    channel.ctx.fillRect(0, 0, width, height);
+    channel.ctx.drawImage(canvas, (width - drawWidth) / 2 + dx, (height - drawHeight) / 2 + dy, drawWidth, drawHeight);
+    channel.ctx.globalCompositeOperation = 'multiply';
+    channel.ctx.fillStyle = color;
+    channel.ctx.fillRect(0, 0, width, height);
+
+    sum.ctx.globalCompositeOperation = 'lighter';
+    sum.ctx.drawImage(channel.canvas, 0, 0);
+  });
+
+  ctx.globalCompositeOperation = 'copy';
+  ctx.drawImage(sum.canvas, 0, 0);
+}
+
+// Built-in effects, in their default stack order
+
+registerPostEffect<{ persistence: number }>({
+  id: 'phosphor',
+  label: 'Phosphor Persistence',
+  defaultParams: { persistence: 0.6 },
+  paramSchema: [
+    {
+      type: 'number',
+      key: 'persistence',
+      label: 'Persistence',
+      min: 0.05,
+      max: 0.95,
+      step: 0.05,
+      description: 'How much of the previous frame lingers'
+    }
+  ],
+  apply: ({ canvas, ctx, width, height, frame, getScratch, state }, { persistence }) => {
+    const trail = getScratch('trail');
+    const output = getScratch('output');
+    if (!trail || !output) return;
+
+    // Trails only follow consecutive frames; re-rendering a frame keeps its trail,
+    // seeking or resizing starts over
+    const sizeKey = `${width}x${height}`;
+    const lastFrame = state.lastFrame as number | undefined;
+    let hasTrail = state.sizeKey === sizeKey && state.hasTrail === true;
+    if (frame === (lastFrame ?? NaN) + 1 && state.sizeKey === sizeKey) {
+      trail.ctx.globalCompositeOperation = 'copy';
+      trail.ctx.drawImage(output.canvas, 0, 0);
+      hasTrail = true;
+    } else if (frame !== lastFrame || state.sizeKey !== sizeKey) {
+      hasTrail = false;
+    }
+
+    if (hasTrail) {
+      ctx.globalCompositeOperation = 'lighten';
+      ctx.globalAlpha = persistence;
+      ctx.drawImage(trail.canvas, 0, 0);
+    }
+
+    output.ctx.globalCompositeOperation = 'copy';
+    output.ctx.drawImage(canvas, 0, 0);
+    state.lastFrame = frame;
+    state.sizeKey = sizeKey;
+    state.hasTrail = hasTrail;
+  }
+});
+
+registerPostEffect<{ amount: number }>({
+  id: 'chromaticAberration',
+  label: 'Chromatic Aberration',
+  defaultParams: { amount: 4 },
+  paramSchema: [
+    {
+      type: 'number',
+      key: 'amount',
+      label: 'Amount',
+      min: 0,
+      max: 20,
+      step: 0.5,
+      unit: 'px',
+      description: 'Red/blue fringe width at the corners'
+    }
+  ],
+  apply: (context, { amount }) => {
+    // Red is scaled up and blue down about the center, so fringes grow toward the edges
+    const halfDiagonal = Math.hypot(context.width, context.height) / 2;
+    const spread = amount / halfDiagonal;
+    drawChannelsApart(context, (channel) => ({ dx: 0, dy: 0, scale: 1 + (1 - channel) * spread }));
+  }
+});
+
+registerPostEffect<{ amount: number; angle: number }>({
+  id: 'rgbSplit',
+  label: 'RGB Split',
+  defaultParams: { amount: 3, angle: 0 },
+  paramSchema: [
+    { type: 'number', key: 'amount', label: 'Offset', min: 0, max: 30, step: 1, unit: 'px' },
+    { type: 'number', key: 'angle', label: 'Direction', min: 0, max: 360, step: 5, unit: '°' }
+  ],
+  apply: (context, { amount, angle }) => {
+    // Red moves along the direction, blue the opposite way
+    const radians = (angle * Math.PI) / 180;
+    const dx = Math.cos(radians) * amount;
+    const dy = Math.sin(radians) * amount;
+    drawChannelsApart(context, (channel) => ({ dx: (1 - channel) * dx, dy: (1 - channel) * dy, scale: 1 }));
+  }
+});
+
+registerPostEffect<{ intensity: number; spacing: number; speed: number }>({
+  id: 'scanlines',
+  label: 'Scanlines',
+  defaultParams: { intensity: 0.4, spacing: 3, speed: 0 },
+  paramSchema: [
+    { type: 'number', key: 'intensity', label: 'Darkness', min: 0, max: 1, step: 0.05 },
+    { type: 'number', key: 'spacing', label: 'Spacing', min: 2, max: 12, step: 1, unit: 'px' },
+    {
+      type: 'number',
+      key: 'speed',
+      label: 'Roll Speed',
+      min: 0,
+      max: 2,
+      step: 0.1,
+      unit: ' px/frame'
+    }
+  ],
+  apply: ({ ctx, width, height, frame }, { intensity, spacing, speed }) => {
+    const offset = ((frame * speed) % spacing + spacing) % spacing;
+    const thickness = Math.max(1, spacing / 2);
+    ctx.fillStyle = `rgba(0, 0, 0, ${intensity})`;
+    for (let y = offset - spacing; y < height; y += spacing) {
+      ctx.fillRect(0, y, width, thickness);
+    }
+  }
+});
+
+registerPostEffect<{ amount: number; size: number }>({
+  id: 'filmGrain',
+  label: 'Film Grain',
+  defaultParams: { amount: 0.12, size: 1 },
+  paramSchema: [
+    { type: 'number', key: 'amount', label: 'Amount', min: 0, max: 0.5, step: 0.01 },
+    { type: 'number', key: 'size', label: 'Grain Size', min: 1, max: 4, step: 1, unit: 'px' }
+  ],
+  apply: ({ ctx, width, height, frame, seed, createCanvas, state }, { amount, size }) => {
+    // The tile is regenerated per frame from the seed, so exports are reproducible
+    let tile = state.tile as Scratch | undefined;
+    if (!tile) {
+      const canvas = createCanvas();
+      canvas.width = GRAIN_TILE_SIZE;
+      canvas.height = GRAIN_TILE_SIZE;
+      const tileCtx = getRenderContext(canvas);
+      if (!tileCtx) return;
+      tile = { canvas, ctx: tileCtx };
+      state.tile = tile;
+    }
+    if (state.tileKey !== `${seed}:${frame}`) {
+      const noise = tile.ctx.createImageData(GRAIN_TILE_SIZE, GRAIN_TILE_SIZE);
+      for (let i = 0; i < GRAIN_TILE_SIZE * GRAIN_TILE_SIZE; i++) {
+        const value = Math.floor(hashRandom(seed, frame, i) * 256);
+        noise.data[i * 4] = value;
+        noise.data[i * 4 + 1] = value;
+        noise.data[i * 4 + 2] = value;
+        noise.data[i * 4 + 3] = 255;
+      }
+      tile.ctx.putImageData(noise, 0, 0);
+      state.tileKey = `${seed}:${frame}`;
+    }
+
+    const tileSize = GRAIN_TILE_SIZE * size;
+    ctx.imageSmoothingEnabled = false;
+    ctx.globalAlpha = amount;
+    for (let y = 0; y < height; y += tileSize) {
+      for (let x = 0; x < width; x += tileSize) {
+        ctx.drawImage(tile.canvas, x, y, tileSize, tileSize);
+      }
+    }
+  }
+});
+
+registerPostEffect<{ amount: number; size: number }>({
+  id: 'vignette',
+  label: 'Vignette',
+  defaultParams: { amount: 0.6, size: 0.5 },
+  paramSchema: [
+    { type: 'number', key: 'amount', label: 'Darkness', min: 0, max: 1, step: 0.05 },
+    {
+      type: 'number',
+      key: 'size',
+      label: 'Clear Area',
+      min: 0,
+      max: 1,
+      step: 0.05,
+      description: 'Fraction of the half diagonal left untouched'
+    }
+  ],
+  apply: ({ ctx, width, height }, { amount, size }) => {
+    const halfDiagonal = Math.hypot(width, height) / 2;
+    const gradient = ctx.createRadialGradient(
+      width / 2, height / 2, Math.min(size, 0.99) * halfDiagonal,
+      width / 2, height / 2, halfDiagonal
+    );
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, `rgba(0, 0, 0, ${amount})`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+});
+
+registerPostEffect<{ strength: number }>({
+  id: 'barrelDistortion',
+  label: 'Barrel Distortion',
+  defaultParams: { strength: 0.1 },
+  paramSchema: [
+    {
+      type: 'number',
+      key: 'strength',
+      label: 'Curvature',
+      min: 0,
+      max: 0.5,
+      step: 0.01,
+      description: 'Screen bulge; corners outside the image turn black'
+    }
+  ],
+  apply: ({ ctx, width, height, state }, { strength }) => {
+    // Source pixel of every output pixel (-1 = outside), cached per size and strength
+    const mapKey = `${width}x${height}:${strength}`;
+    let map = state.map as Int32Array | undefined;
+    if (state.mapKey !== mapKey || !map) {
+      map = new Int32Array(width * height);
+      const cx = width / 2;
+      const cy = height / 2;
+      const halfDiagonal = Math.hypot(cx, cy);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const nx = (x + 0.5 - cx) / halfDiagonal;
+          const ny = (y + 0.5 - cy) / halfDiagonal;
+          const factor = 1 + strength * (nx * nx + ny * ny);
+          const sx = Math.floor(cx + nx * factor * halfDiagonal);
+          const sy = Math.floor(cy + ny * factor * halfDiagonal);
+          map[y * width + x] = sx >= 0 && sx < width && sy >= 0 && sy < height ? sy * width + sx : -1;
+        }
+      }
+      state.map = map;
+      state.mapKey = mapKey;
+    }
+
+    const source = ctx.getImageData(0, 0, width, height);
+    const output = ctx.createImageData(width, height);
+    const src = new Uint32Array(source.data.buffer);
+    const out = new Uint32Array(output.data.buffer);
+    // Opaque black in either byte order
+    const black = new Uint32Array(new Uint8ClampedArray([0, 0, 0, 255]).buffer)[0];
+    for (let i = 0; i < map.length; i++) {
+      out[i] = map[i] < 0 ? black : src[map[i]];
+    }
+    ctx.putImageData(output, 0, 0);
+  }
+});
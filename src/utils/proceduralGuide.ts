@@ -0,0 +1,304 @@
+/**
+ * Procedural shape guides
+ * Gradients, noise fields, Voronoi cells and checkerboards generated as brightness maps,
+ * optionally animated over the frame counter
+ */
+
+import type { Layer, LayerConfig } from '@/types';
+import { createRandom, hashRandom } from './random';
+import { processShapePixels, SHAPE_PROCESSING_KEYS } from './shapeProcessing';
+
+/**
+ * Procedural guide settings (the procedural fields of LayerConfig)
+ */
+export type ProceduralGuideSettings = Pick<
+  LayerConfig,
+  'proceduralGuide' | 'proceduralScale' | 'proceduralAngle' | 'proceduralOctaves' | 'proceduralSpeed'
+>;
+
+/** Side of the generated (square) guide in pixels */
+const PROCEDURAL_GUIDE_SIZE = 128;
+
+/** Last generated brightness map per layer */
+const guideCache = new Map<string, { key: string; shapeData: number[][] }>();
+
+/** Permutation table of the last seed used (projects rarely change seeds) */
+let permutationCache: { seed: number; table: Uint8Array } | null = null;
+
+/**
+ * Shuffled 0-255 table for a seed, doubled so lookups never need wrapping
+ */
+function getPermutation(seed: number): Uint8Array {
+  if (permutationCache?.seed === seed) return permutationCache.table;
+  const random = createRandom(seed);
+  const values = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+  const table = Uint8Array.from([...values, ...values]);
+  permutationCache = { seed, table };
+  return table;
+}
+
+/** Gradient directions for Perlin noise */
+const PERLIN_GRADIENTS = [[1, 1], [-1, 1], [1, -1], [-1, -1], [1, 0], [-1, 0], [0, 1], [0, -1]];
+
+/** Skew factors for 2D simplex noise */
+const SIMPLEX_F2 = 0.5 * (Math.sqrt(3) - 1);
+const SIMPLEX_G2 = (3 - Math.sqrt(3)) / 6;
+
+const fract = (value: number) => value - Math.floor(value);
+
+/**
+ * Classic 2D Perlin noise, scaled to about [-1, 1]
+ */
+function perlin(permutation: Uint8Array, x: number, y: number): number {
+  const xi = Math.floor(x);
+  const yi = Math.floor(y);
+  const xf = x - xi;
+  const yf = y - yi;
+  const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+  const corner = (cx: number, cy: number) => {
+    const gradient = PERLIN_GRADIENTS[permutation[permutation[(xi + cx) & 255] + ((yi + cy) & 255)] & 7];
+    return gradient[0] * (xf - cx) + gradient[1] * (yf - cy);
+  };
+  const u = fade(xf);
+  const v = fade(yf);
+  const top = corner(0, 0) + u * (corner(1, 0) - corner(0, 0));
+  const bottom = corner(0, 1) + u * (corner(1, 1) - corner(0, 1));
+  return 1.4 * (top + v * (bottom - top));
+}
+
+/**
+ * 2D simplex noise in about [-1, 1]
+ */
+function simplex(permutation: Uint8Array, x: number, y: number): number {
+  const skew = (x + y) * SIMPLEX_F2;
+  const i = Math.floor(x + skew);
+  const j = Math.floor(y + skew);
+  const unskew = (i + j) * SIMPLEX_G2;
+  const x0 = x - (i - unskew);
+  const y0 = y - (j - unskew);
+  // Which triangle of the skewed cell the point is in
+  const i1 = x0 > y0 ? 1 : 0;
+  const j1 = 1 - i1;
+
+  const corner = (dx: number, dy: number, ci: number, cj: number) => {
+    const t = 0.5 - dx * dx - dy * dy;
+    if (t < 0) return 0;
+    const gradient = PERLIN_GRADIENTS[permutation[((i + ci) & 255) + permutation[(j + cj) & 255]] & 7];
+    return t * t * t * t * (gradient[0] * dx + gradient[1] * dy);
+  };
+
+  return 70 * (
+    corner(x0, y0, 0, 0) +
+    corner(x0 - i1 + SIMPLEX_G2, y0 - j1 + SIMPLEX_G2, i1, j1) +
+    corner(x0 - 1 + 2 * SIMPLEX_G2, y0 - 1 + 2 * SIMPLEX_G2, 1, 1)
+  );
+}
+
+/**
+ * Fractal sum of noise octaves, mapped to 0-1
+ */
+function fractalNoise(
+  noise: (permutation: Uint8Array, x: number, y: number) => number,
+  permutation: Uint8Array,
+  x: number,
+  y: number,
+  octaves: number
+): number {
+  let sum = 0;
+  let amplitude = 1;
+  let amplitudeSum = 0;
+  let frequency = 1;
+  for (let octave = 0; octave < octaves; octave++) {
+    sum += amplitude * noise(permutation, x * frequency, y * frequency);
+    amplitudeSum += amplitude;
+    amplitude *= 0.5;
+    frequency *= 2;
+  }
+  return Math.min(1, Math.max(0, 0.5 + 0.5 * sum / amplitudeSum));
+}
+
+/**
+ * Voronoi point positions for the cells covering a guide of `cells` × `cells` cells
+ * Each cell holds one point, which circles its own orbit as time advances
+ * Points are stored with a one-cell margin so every pixel can check its neighbors
+ */
+function createVoronoiPoints(cells: number, time: number, seed: number): { stride: number; points: Float64Array } {
+  const stride = cells + 2;
+  const points = new Float64Array(stride * stride * 2);
+  for (let cy = -1; cy <= cells; cy++) {
+    for (let cx = -1; cx <= cells; cx++) {
+      const angle = 2 * Math.PI * (hashRandom(seed, cx, cy, 0) + time);
+      const radius = 0.4 * hashRandom(seed, cx, cy, 1);
+      const index = ((cy + 1) * stride + cx + 1) * 2;
+      points[index] = cx + 0.5 + radius * Math.cos(angle);
+      points[index + 1] = cy + 0.5 + radius * Math.sin(angle);
+    }
+  }
+  return { stride, points };
+}
+
+/**
+ * Distance to the nearest Voronoi point, in cell units (clamped to 1)
+ */
+function voronoi(x: number, y: number, voronoiPoints: { stride: number; points: Float64Array }): number {
+  const { stride, points } = voronoiPoints;
+  const cellX = Math.floor(x);
+  const cellY = Math.floor(y);
+  let nearest = Infinity;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const index = ((cellY + dy + 1) * stride + cellX + dx + 1) * 2;
+      nearest = Math.min(nearest, Math.hypot(x - points[index], y - points[index + 1]));
+    }
+  }
+  return Math.min(1, nearest);
+}
+
+/**
+ * Generates a procedural guide as brightness values
+ *
+ * @param settings - Procedural guide settings
+ * @param size - Side of the square guide in pixels
+ * @param frame - Animation frame (ignored when the speed is 0)
+ * @param seed - Project seed (noise and Voronoi points)
+ * @returns Row-major 0-1 values (size × size)
+ *
+ * @example
+ * const values = generateProceduralValues({ ...config, proceduralGuide: 'perlin' }, 64, frame, seed);
+ */
+export function generateProceduralValues(
+  settings: ProceduralGuideSettings,
+  size: number,
+  frame: number,
+  seed: number
+): Float32Array {
+  const values = new Float32Array(size * size);
+  const time = (frame * settings.proceduralSpeed) / 100;
+  const radians = (settings.proceduralAngle * Math.PI) / 180;
+  const dirX = Math.cos(radians);
+  const dirY = Math.sin(radians);
+  const scale = Math.max(0.1, settings.proceduralScale);
+  const octaves = Math.max(1, Math.round(settings.proceduralOctaves));
+  const voronoiPoints = settings.proceduralGuide === 'voronoi'
+    ? createVoronoiPoints(Math.ceil(scale), time, seed)
+    : null;
+  const permutation = getPermutation(seed);
+  // Animated gradients wrap around, so they scroll instead of sliding out
+  const wrap = (value: number, shift: number) => (time === 0 ? value : fract(value + shift));
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      // Pixel centers in guide units (0-1), and relative to the center
+      const u = (x + 0.5) / size;
+      const v = (y + 0.5) / size;
+      const px = u - 0.5;
+      const py = v - 0.5;
+      // Noise and checker guides scroll along the angle
+      const sx = (u - dirX * time) * scale;
+      const sy = (v - dirY * time) * scale;
+
+      let value: number;
+      switch (settings.proceduralGuide) {
+        case 'linear':
+          value = wrap((px * dirX + py * dirY) / (Math.abs(dirX) + Math.abs(dirY)) + 0.5, -time);
+          break;
+        case 'radial':
+          value = wrap(1 - Math.min(1, Math.hypot(px, py) / 0.5), time);
+          break;
+        case 'conic':
+          value = fract((Math.atan2(py, px) - radians) / (2 * Math.PI) - time);
+          break;
+        case 'perlin':
+          value = fractalNoise(perlin, permutation, sx, sy, octaves);
+          break;
+        case 'simplex':
+          value = fractalNoise(simplex, permutation, sx, sy, octaves);
+          break;
+        case 'voronoi':
+          value = voronoi(u * scale, v * scale, voronoiPoints!);
+          break;
+        case 'checker':
+          value = (Math.floor(sx) + Math.floor(sy)) & 1;
+          break;
+        default:
+          value = 0;
+      }
+      values[y * size + x] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Brightness map of a layer's procedural guide, run through the layer's preprocessing
+ * Reused while neither the settings, the seed nor (for animated guides) the frame change
+ *
+ * @param layerId - Layer the guide belongs to (cache slot)
+ * @param config - Layer configuration with procedural and preprocessing settings
+ * @param frame - Animation frame
+ * @param seed - Project seed
+ * @returns Brightness map (rows of 0-1 values)
+ */
+export function getProceduralShapeData(layerId: string, config: LayerConfig, frame: number, seed: number): number[][] {
+  const keys: (keyof LayerConfig)[] = [
+    'proceduralGuide',
+    'proceduralScale',
+    'proceduralAngle',
+    'proceduralOctaves',
+    'proceduralSpeed',
+    ...SHAPE_PROCESSING_KEYS
+  ];
+  const time = config.proceduralSpeed === 0 ? 0 : frame;
+  const key = [...keys.map(setting => config[setting]), time, seed].join();
+  const cached = guideCache.get(layerId);
+  if (cached && cached.key === key) return cached.shapeData;
+
+  const values = generateProceduralValues(config, PROCEDURAL_GUIDE_SIZE, time, seed);
+  const data = new Uint8ClampedArray(values.length * 4);
+  for (let i = 0; i < values.length; i++) {
+    const value = Math.round(values[i] * 255);
+    data[i * 4] = value;
+    data[i * 4 + 1] = value;
+    data[i * 4 + 2] = value;
+    data[i * 4 + 3] = 255;
+  }
+  const shapeData = processShapePixels(new ImageData(data, PROCEDURAL_GUIDE_SIZE, PROCEDURAL_GUIDE_SIZE), config);
+  guideCache.set(layerId, { key, shapeData });
+  return shapeData;
+}
+
+/**
+ * Drops the cached brightness maps of layers that no longer exist
+ *
+ * @param layers - Current layers
+ */
+export function pruneProceduralGuides(layers: Layer[]): void {
+  guideCache.forEach((_, id) => {
+    if (!layers.some(layer => layer.id === id)) guideCache.delete(id);
+  });
+}
+
+/**
+ * Whether a layer has a shape guide (uploaded or procedural)
+ */
+export function hasShapeGuide(layer: Layer): boolean {
+  return layer.shapeData !== null || layer.config.proceduralGuide !== 'none';
+}
+
+/**
+ * Returns the layer with its brightness map generated by its procedural guide
+ * Layers without a procedural guide are returned unchanged
+ *
+ * @param layer - Layer to render
+ * @param frame - Animation frame being rendered
+ * @param seed - Project seed
+ * @returns Layer whose shapeData is the procedural guide at that frame
+ */
+export function withProceduralShapeData(layer: Layer, frame: number, seed: number): Layer {
+  if (layer.config.proceduralGuide === 'none') return layer;
+  return { ...layer, shapeData: getProceduralShapeData(layer.id, layer.config, frame, seed) };
+}
@@ -0,0 +1,411 @@
+/**
+ * Project file format: serialization, validation and migration
+ */
+
+import type { BloomSettings, CanvasSizeSettings, Layer, LayerConfig, PatternParams, PostEffectSettings, ProjectFile, SerializedLayer } from '@/types';
+import {
+  CANVAS_SIZE_MODES,
+  DEFAULT_BLOOM_SETTINGS,
+  DEFAULT_CANVAS_SIZE_SETTINGS,
+  DEFAULT_LAYER_CONFIG,
+  LAYER_CONFIG_RANGES,
+  OUTPUT_PRESETS,
+  BLEND_MODES,
+  MASK_MODES,
+  SHAPE_FIT_MODES,
+  SHAPE_CHANNELS,
+  PROCEDURAL_GUIDES
+} from './constants';
+import { processShapePixels } from './shapeProcessing';
+import { getPattern } from './patternRegistry';
+import { getPostEffect, getPostEffects } from './postEffects';
+import { clampOutputSize } from './canvasSize';
+
+/**
+ * Current project file format version
+ * Bump when the file layout changes and add a step to MIGRATIONS
+ */
+export const PROJECT_FILE_VERSION = 1;
+
+/** Marker identifying project files */
+export const PROJECT_FORMAT = 'dither-pattern-project';
+
+/**
+ * Error raised when a project file cannot be read
+ */
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+/**
+ * Loosely typed object used while validating untrusted input
+ */
+type RawObject = Record<string, unknown>;
+
+/**
+ * Upgrades a raw project from one version to the next, keyed by the source version
+ * e.g. { 1: (raw) => ({ ...raw, version: 2, newField: ... }) }
+ */
+const MIGRATIONS: Record<number, (raw: RawObject) => RawObject> = {};
+
+/**
+ * Project state captured when saving
+ */
+interface ProjectState {
+  layers: Layer[];
+  activeLayerId: string;
+  seed: number;
+  canvasSize: { width: number; height: number };
+  canvasSizeSettings: CanvasSizeSettings;
+  bloom: BloomSettings;
+  postEffects: PostEffectSettings[];
+}
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Converts the current state into a project file
+ *
+ * @param state - Layers, seed, canvas size (and its settings) and post-processing to save
+ * @returns Serializable project
+ */
+export function serializeProject(state: ProjectState): ProjectFile {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    seed: state.seed,
+    canvas: { ...state.canvasSize },
+    canvasSizeSettings: { ...state.canvasSizeSettings },
+    activeLayerId: state.activeLayerId,
+    layers: state.layers.map(layer => ({
+      id: layer.id,
+      name: layer.name,
+      visible: layer.visible,
+      opacity: layer.opacity,
+      blendMode: layer.blendMode,
+      maskMode: layer.maskMode,
+      maskInvert: layer.maskInvert,
+      config: { ...layer.config },
+      // Video guides are not stored; only image guides are embedded
+      shapeImage: layer.shapeImage?.src ?? null
+    })),
+    bloom: { ...state.bloom },
+    postEffects: state.postEffects.map(effect => ({ ...effect, params: { ...effect.params } }))
+  };
+}
+
+/**
+ * Keeps only well-formed pattern parameter overrides (objects of primitive values)
+ */
+function normalizePatternParams(raw: unknown): Record<string, PatternParams> {
+  const result: Record<string, PatternParams> = {};
+  if (!isObject(raw)) return result;
+
+  Object.entries(raw).forEach(([patternId, params]) => {
+    if (!isObject(params)) return;
+    const clean: PatternParams = {};
+    Object.entries(params).forEach(([key, value]) => {
+      if ((typeof value === 'number' && Number.isFinite(value)) || typeof value === 'boolean' || typeof value === 'string') {
+        clean[key] = value;
+      }
+    });
+    result[patternId] = clean;
+  });
+  return result;
+}
+
+/**
+ * Builds a complete LayerConfig from stored values
+ * Fields missing from older files (or with the wrong type) fall back to defaults,
+ * numbers are clamped to their slider ranges, unknown fields and patterns that are
+ * not registered are dropped
+ *
+ * @param raw - Stored config object
+ * @returns Config with every current field present
+ */
+export function normalizeLayerConfig(raw: RawObject): LayerConfig {
+  const config: LayerConfig = { ...DEFAULT_LAYER_CONFIG };
+  const target = config as unknown as RawObject;
+
+  (Object.keys(DEFAULT_LAYER_CONFIG) as (keyof LayerConfig)[]).forEach((key) => {
+    const value = raw[key];
+    if (typeof value === typeof DEFAULT_LAYER_CONFIG[key] && !(typeof value === 'number' && !Number.isFinite(value))) {
+      target[key] = value;
+    }
+  });
+
+  (Object.keys(LAYER_CONFIG_RANGES) as (keyof typeof LAYER_CONFIG_RANGES)[]).forEach((key) => {
+    const { min, max } = LAYER_CONFIG_RANGES[key];
+    config[key] = Math.min(max, Math.max(min, config[key]));
+  });
+
+  config.patternParams = normalizePatternParams(raw.patternParams);
+  if (!getPattern(config.pattern)) {
+    config.pattern = DEFAULT_LAYER_CONFIG.pattern;
+  }
+  config.shapeFit = SHAPE_FIT_MODES.find(mode => mode.value === config.shapeFit)?.value ?? DEFAULT_LAYER_CONFIG.shapeFit;
+  config.shapeChannel = SHAPE_CHANNELS.find(channel => channel.value === config.shapeChannel)?.value ?? DEFAULT_LAYER_CONFIG.shapeChannel;
+  config.proceduralGuide = PROCEDURAL_GUIDES.find(guide => guide.value === config.proceduralGuide)?.value
+    ?? DEFAULT_LAYER_CONFIG.proceduralGuide;
+
+  return config;
+}
+
+/**
+ * Builds complete bloom settings from stored values
+ * Missing or mistyped fields fall back to defaults, numbers are clamped to their ranges
+ *
+ * @param raw - Stored bloom settings (anything, since older files have none)
+ * @returns Bloom settings
+ */
+export function normalizeBloomSettings(raw: unknown): BloomSettings {
+  const bloom = { ...DEFAULT_BLOOM_SETTINGS };
+  if (!isObject(raw)) return bloom;
+
+  const number = (value: unknown, fallback: number, min: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+  bloom.enabled = typeof raw.enabled === 'boolean' ? raw.enabled : bloom.enabled;
+  bloom.threshold = number(raw.threshold, bloom.threshold, 0, 1);
+  bloom.radius = number(raw.radius, bloom.radius, 1, 256);
+  bloom.strength = number(raw.strength, bloom.strength, 0, 3);
+  bloom.replaceGlow = typeof raw.replaceGlow === 'boolean' ? raw.replaceGlow : bloom.replaceGlow;
+  return bloom;
+}
+
+/**
+ * Builds complete canvas size settings from stored values
+ * Missing or unknown fields fall back to defaults, sizes are clamped to the supported range
+ *
+ * @param raw - Stored settings (anything, since older files have none)
+ * @returns Canvas size settings
+ */
+export function normalizeCanvasSizeSettings(raw: unknown): CanvasSizeSettings {
+  const settings = { ...DEFAULT_CANVAS_SIZE_SETTINGS };
+  if (!isObject(raw)) return settings;
+
+  settings.mode = CANVAS_SIZE_MODES.find(mode => mode.value === raw.mode)?.value ?? settings.mode;
+  settings.preset = raw.preset === 'custom'
+    ? 'custom'
+    : OUTPUT_PRESETS.find(preset => preset.value === raw.preset)?.value ?? settings.preset;
+  if (typeof raw.width === 'number') settings.width = clampOutputSize(raw.width);
+  if (typeof raw.height === 'number') settings.height = clampOutputSize(raw.height);
+  return settings;
+}
+
+/**
+ * Builds a complete post-effect stack from stored values
+ * Keeps the stored order of registered effects (first occurrence wins), appends effects
+ * missing from older files disabled, and clamps number parameters to their schema ranges
+ *
+ * @param raw - Stored stack (anything, since older files have none)
+ * @returns Stack with every registered effect exactly once
+ */
+export function normalizePostEffects(raw: unknown): PostEffectSettings[] {
+  const stack: PostEffectSettings[] = [];
+  const seen = new Set<string>();
+
+  (Array.isArray(raw) ? raw : []).forEach((entry) => {
+    if (!isObject(entry) || typeof entry.id !== 'string' || seen.has(entry.id)) return;
+    const definition = getPostEffect(entry.id);
+    if (!definition) return;
+
+    const stored = isObject(entry.params) ? entry.params : {};
+    const params: PatternParams = { ...definition.defaultParams };
+    definition.paramSchema.forEach((schema) => {
+      const value = stored[schema.key];
+      if (schema.type === 'number' && typeof value === 'number' && Number.isFinite(value)) {
+        params[schema.key] = Math.min(schema.max, Math.max(schema.min, value));
+      } else if (schema.type !== 'number' && typeof value === typeof params[schema.key]) {
+        params[schema.key] = value as PatternParams[string];
+      }
+    });
+
+    seen.add(entry.id);
+    stack.push({ id: entry.id, enabled: entry.enabled === true, params });
+  });
+
+  getPostEffects().forEach((definition) => {
+    if (!seen.has(definition.id)) {
+      stack.push({ id: definition.id, enabled: false, params: { ...definition.defaultParams } });
+    }
+  });
+  return stack;
+}
+
+/**
+ * Validates one stored layer
+ */
+function parseLayer(raw: unknown, index: number): SerializedLayer {
+  const where = `layers[${index}]`;
+  if (!isObject(raw)) {
+    throw new ProjectFileError(`${where} is not an object`);
+  }
+  if (typeof raw.id !== 'string' || raw.id === '') {
+    throw new ProjectFileError(`${where}.id must be a non-empty string`);
+  }
+  if (typeof raw.name !== 'string') {
+    throw new ProjectFileError(`${where}.name must be a string`);
+  }
+  if (typeof raw.visible !== 'boolean') {
+    throw new ProjectFileError(`${where}.visible must be a boolean`);
+  }
+  if (typeof raw.opacity !== 'number' || raw.opacity < 0 || raw.opacity > 1) {
+    throw new ProjectFileError(`${where}.opacity must be a number between 0 and 1`);
+  }
+  // Optional: files written before blend modes and masks existed composite normally
+  const blendMode = BLEND_MODES.find(mode => mode.value === raw.blendMode)?.value ?? 'source-over';
+  const maskMode = MASK_MODES.find(mode => mode.value === raw.maskMode)?.value ?? 'none';
+  if (!isObject(raw.config)) {
+    throw new ProjectFileError(`${where}.config must be an object`);
+  }
+  if (raw.shapeImage !== null && (typeof raw.shapeImage !== 'string' || !raw.shapeImage.startsWith('data:image/'))) {
+    throw new ProjectFileError(`${where}.shapeImage must be an image data URL or null`);
+  }
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    visible: raw.visible,
+    opacity: raw.opacity,
+    blendMode,
+    maskMode,
+    maskInvert: raw.maskInvert === true,
+    config: normalizeLayerConfig(raw.config),
+    shapeImage: raw.shapeImage
+  };
+}
+
+/**
+ * Validates and migrates parsed project data
+ *
+ * @param data - Parsed JSON
+ * @returns Project in the current format
+ * @throws ProjectFileError if the data is not a valid project
+ */
+export function validateProject(data: unknown): ProjectFile {
+  if (!isObject(data) || data.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('Not a pattern project file');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new ProjectFileError('Missing or invalid project version');
+  }
+  if (data.version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(
+      `Project was saved by a newer version (file v${data.version}, supported v${PROJECT_FILE_VERSION})`
+    );
+  }
+
+  // Step older files up to the current version
+  let raw: RawObject = data;
+  while ((raw.version as number) < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[raw.version as number];
+    if (!migrate) {
+      throw new ProjectFileError(`No migration from project version ${raw.version}`);
+    }
+    raw = migrate(raw);
+  }
+
+  if (!Array.isArray(raw.layers) || raw.layers.length === 0) {
+    throw new ProjectFileError('Project must contain at least one layer');
+  }
+  const layers = raw.layers.map(parseLayer);
+
+  const ids = new Set(layers.map(l => l.id));
+  if (ids.size !== layers.length) {
+    throw new ProjectFileError('Layer ids must be unique');
+  }
+
+  const seed = typeof raw.seed === 'number' && Number.isInteger(raw.seed) && raw.seed >= 0
+    ? raw.seed
+    : 0;
+  const canvas = isObject(raw.canvas) && typeof raw.canvas.width === 'number' && typeof raw.canvas.height === 'number'
+    ? { width: raw.canvas.width, height: raw.canvas.height }
+    : { width: 0, height: 0 };
+  const activeLayerId = typeof raw.activeLayerId === 'string' && ids.has(raw.activeLayerId)
+    ? raw.activeLayerId
+    : layers[0].id;
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    seed,
+    canvas,
+    canvasSizeSettings: normalizeCanvasSizeSettings(raw.canvasSizeSettings),
+    activeLayerId,
+    layers,
+    bloom: normalizeBloomSettings(raw.bloom),
+    postEffects: normalizePostEffects(raw.postEffects)
+  };
+}
+
+/**
+ * Parses project file text
+ *
+ * @param text - File contents
+ * @returns Validated project in the current format
+ * @throws ProjectFileError if the text is not a valid project
+ *
+ * @example
+ * const project = parseProjectFile(await file.text());
+ */
+export function parseProjectFile(text: string): ProjectFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('Project file is not valid JSON');
+  }
+  return validateProject(data);
+}
+
+/**
+ * Loads an image URL and reads its downscaled pixels (see useImageUpload)
+ */
+export type ShapeImageLoader = (src: string) => Promise<{ img: HTMLImageElement; pixels: ImageData }>;
+
+/**
+ * Turns the stored layers of a project back into live layers,
+ * decoding embedded shape guides and running them through the layer's preprocessing
+ *
+ * @param project - Validated project
+ * @param loadShapeImage - Image loader from useImageUpload
+ * @returns Layers ready for the layer manager
+ * @throws ProjectFileError if a shape guide cannot be decoded
+ */
+export async function restoreProjectLayers(
+  project: ProjectFile,
+  loadShapeImage: ShapeImageLoader
+): Promise<Layer[]> {
+  return Promise.all(project.layers.map(async (stored): Promise<Layer> => {
+    let shapeImage: HTMLImageElement | null = null;
+    let shapePixels: ImageData | null = null;
+    if (stored.shapeImage) {
+      try {
+        const shape = await loadShapeImage(stored.shapeImage);
+        shapeImage = shape.img;
+        shapePixels = shape.pixels;
+      } catch {
+        throw new ProjectFileError(`Shape guide of layer "${stored.name}" could not be decoded`);
+      }
+    }
+    return {
+      id: stored.id,
+      name: stored.name,
+      visible: stored.visible,
+      opacity: stored.opacity,
+      blendMode: stored.blendMode,
+      maskMode: stored.maskMode,
+      maskInvert: stored.maskInvert,
+      config: stored.config,
+      shapeImage,
+      shapeVideo: null,
+      shapePixels,
+      shapeData: shapePixels ? processShapePixels(shapePixels, stored.config) : null
+    };
+  }));
+}
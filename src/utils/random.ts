@@ -0,0 +1,62 @@
+/**
+ * Seedable pseudo-random number generation
+ * All pattern randomness goes through these helpers so a seed reproduces a frame exactly
+ */
+
+/**
+ * Mixes a 32-bit integer (murmur3 finalizer)
+ */
+function mix32(value: number): number {
+  let h = value | 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Creates a seeded random number generator (mulberry32)
+ * 
+ * @param seed - Integer seed
+ * @returns Function returning values in [0, 1), like Math.random
+ * 
+ * @example
+ * const random = createRandom(42);
+ * random(); // Always the same first value for seed 42
+ */
+export function createRandom(seed: number): () => number {
+  let state = mix32(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Returns a random value in [0, 1) determined only by the seed and the given integers
+ * Useful where values are needed out of order (e.g. per column, per wrap-around)
+ * 
+ * @param seed - Integer seed
+ * @param values - Integers identifying the value (e.g. column, iteration, channel)
+ * @returns Deterministic value in [0, 1)
+ * 
+ * @example
+ * hashRandom(42, 3, 0) === hashRandom(42, 3, 0) // true
+ */
+export function hashRandom(seed: number, ...values: number[]): number {
+  let h = mix32(seed ^ 0x9e3779b9);
+  for (const value of values) {
+    h = mix32(h ^ Math.imul(value | 0, 0x27d4eb2d));
+  }
+  return h / 4294967296;
+}
+
+/**
+ * Generates a fresh seed for new projects or the "new seed" button
+ * 
+ * @returns Positive 31-bit integer seed
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
@@ -0,0 +1,44 @@
+/**
+ * Helpers for planning deterministic video recordings
+ */
+
+import type { VideoExportOptions, VideoRecordingPlan } from '@/types';
+
+/**
+ * Works out frame count and frame increment for a recording
+ * Seamless clips are stretched to a whole number of loop periods at the natural speed,
+ * so the last frame flows into the first
+ *
+ * @param options - Recording options
+ * @param animationSpeed - Milliseconds per animation frame
+ * @param loopPeriod - Pattern loop period in frames (null if aperiodic)
+ * @returns Recording plan
+ */
+export function planVideoRecording(
+  options: Pick<VideoExportOptions, 'fps' | 'duration' | 'seamlessLoop'>,
+  animationSpeed: number,
+  loopPeriod: number | null
+): VideoRecordingPlan {
+  const fps = Math.max(1, options.fps);
+  const animationFps = 1000 / animationSpeed;
+
+  if (options.seamlessLoop && loopPeriod !== null) {
+    const periodSeconds = loopPeriod / animationFps;
+    const loops = Math.max(1, Math.round(options.duration / periodSeconds));
+    const frameCount = Math.max(1, Math.round(loops * periodSeconds * fps));
+    return {
+      frameCount,
+      frameIncrement: (loops * loopPeriod) / frameCount,
+      duration: frameCount / fps,
+      isSeamless: true
+    };
+  }
+
+  const frameCount = Math.max(1, Math.round(options.duration * fps));
+  return {
+    frameCount,
+    frameIncrement: animationFps / fps,
+    duration: frameCount / fps,
+    isSeamless: false
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Render comparison helpers
+ * Used to check that rendering backends produce the same image
+ */
+
+/**
+ * Mean absolute difference of the color and alpha channels of two images
+ *
+ * @param a - First image
+ * @param b - Second image of the same size
+ * @returns Difference from 0 (identical) to 1, or 1 if the sizes differ
+ *
+ * @example
+ * const difference = compareImageData(textCtx.getImageData(0, 0, w, h), atlasCtx.getImageData(0, 0, w, h));
+ */
+export function compareImageData(a: ImageData, b: ImageData): number {
+  if (a.width !== b.width || a.height !== b.height) return 1;
+  if (a.data.length === 0) return 0;
+
+  let total = 0;
+  for (let i = 0; i < a.data.length; i++) {
+    total += Math.abs(a.data[i] - b.data[i]);
+  }
+  return total / (a.data.length * 255);
+}
@@ -1,53 +1,198 @@
 /**
  * Pattern rendering functions for different animation types
- * Each function renders a specific pattern type to a canvas context
+ * Each function walks the grid and emits glyphs to a GlyphTarget
+ * (a canvas context, an SVG document, ...)
+ * Patterns are dispatched through the registry in patternRegistry.ts
  */
 
-import type { Layer, Drop, RandomSeed } from '@/types';
+import type { Layer, LayerConfig, RandomSeed, GlyphTarget, RenderCanvas, RenderContext } from '@/types';
 import { getShapeBrightnessForLayer, brightnessToHex, calculateGlowBlur } from './colorUtils';
+import { createDrops, getDropsAtFrame, type DropOptions, type DropSimulations } from './drops';
+import { ditherGrid, type DitherAlgorithm } from './dither';
+import { getGlyphRamp, pickGlyph } from './glyphCoverage';
 
 /**
  * Common parameters for all pattern rendering functions
  */
-interface RenderPatternParams {
-  ctx: CanvasRenderingContext2D;
+export interface RenderPatternParams {
+  target: GlyphTarget;
   layer: Layer;
   cols: number;
   rows: number;
   cellSize: number;
   frame: number;
   randomSeeds: RandomSeed[];
+  /** Project seed (drives seeded animation such as rain drops) */
+  seed: number;
+  /** Drop state kept between frames for playback (without it, each frame is computed from frame 0) */
+  dropSimulations?: DropSimulations;
+}
+
+/**
+ * Rain pattern parameters
+ */
+export type RainOptions = DropOptions & {
+  /** Direction the drops fall in */
+  direction: 'down' | 'up' | 'left' | 'right';
+};
+
+/**
+ * Wave pattern parameters
+ */
+export type WaveOptions = {
+  /** Direction of travel in degrees (0 = original diagonal drift) */
+  direction: number;
+  /** Spatial frequency in radians per cell */
+  frequency: number;
+  /** Wave contrast (0 = flat, 1 = full range) */
+  amplitude: number;
+  /** Phase advance in cells per frame */
+  speed: number;
+};
+
+/**
+ * Glitch pattern parameters
+ */
+export type GlitchOptions = {
+  /** Frames per glitch cycle */
+  cycleLength: number;
+  /** Frames each glitch burst lasts */
+  burstLength: number;
+  /** Frame within the cycle where the second burst starts (0 = single burst) */
+  secondBurstAt: number;
+  /** Probability (0-1) that a cell is displaced during a burst */
+  glitchChance: number;
+  /** Maximum horizontal displacement in pixels */
+  displacementX: number;
+  /** Maximum vertical displacement in pixels */
+  displacementY: number;
+};
+
+/**
+ * Pulse pattern parameters
+ */
+export type PulseOptions = {
+  /** Horizontal origin as a fraction of the width (0-1) */
+  originX: number;
+  /** Vertical origin as a fraction of the height (0-1) */
+  originY: number;
+  /** Pulse speed in radians per frame */
+  rate: number;
+  /** Number of rings travelling outward (0 = whole area pulses at once) */
+  rings: number;
+};
+
+/**
+ * Dither pattern parameters
+ */
+export type DitherOptions = {
+  /** Dithering algorithm */
+  algorithm: DitherAlgorithm;
+  /** Number of brightness levels including off (2 = on/off) */
+  levels: number;
+  /** Alternate the scan direction per row (error diffusion only) */
+  serpentine: boolean;
+  /** 'random' picks symbols from the seeds, 'level' maps brighter levels to later symbols */
+  symbols: 'random' | 'level';
+};
+
+/**
+ * ASCII art pattern parameters
+ */
+export type AsciiOptions = {
+  /** Use dense glyphs for dark areas instead of bright ones */
+  invert: boolean;
+  /** Contrast around mid gray (1 = unchanged) */
+  contrast: number;
+  /** Leave the darkest cells empty instead of using the lightest glyph */
+  blank: boolean;
+};
+
+/**
+ * Font size used for glyphs of a given cell size
+ */
+export function getGlyphFontSize(cellSize: number): number {
+  return cellSize - 2;
+}
+
+/**
+ * Gets the 2D context of a canvas element or an OffscreenCanvas
+ * Options only apply to the first call for a canvas
+ */
+export function getRenderContext(canvas: RenderCanvas, options?: CanvasRenderingContext2DSettings): RenderContext | null {
+  if (typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas) {
+    return canvas.getContext('2d', options);
+  }
+  return (canvas as HTMLCanvasElement).getContext('2d', options);
+}
+
+/**
+ * Creates a glyph target that draws onto a 2D canvas context
+ * Sets fill color per glyph and only touches shadowBlur when the glow amount changes
+ * 
+ * @param ctx - Canvas context (font and alignment must already be set)
+ * @param layerConfig - Layer configuration providing color and glow settings
+ * @returns Glyph target drawing with fillText
+ */
+export function createCanvasGlyphTarget(
+  ctx: RenderContext,
+  layerConfig: LayerConfig
+): GlyphTarget {
+  const colorBase = layerConfig.color;
+  let currentShadowBlur = -1;
+
+  if (layerConfig.glowEffect) {
+    ctx.shadowColor = layerConfig.color;
+  }
+
+  return {
+    drawGlyph: (symbol, x, y, brightness) => {
+      ctx.fillStyle = colorBase + brightnessToHex(brightness);
+
+      const targetBlur = layerConfig.glowEffect 
+        ? calculateGlowBlur(layerConfig.glowIntensity, brightness, layerConfig.glowRadius)
+        : 0;
+      if (currentShadowBlur !== targetBlur) {
+        ctx.shadowBlur = targetBlur;
+        currentShadowBlur = targetBlur;
+      }
+
+      ctx.fillText(symbol, x, y);
+    }
+  };
 }
 
 /**
  * Renders the rain pattern - symbols falling like rain drops
+ * Drops are computed per layer from the seed, so each layer's grid and options apply;
+ * during playback (with dropSimulations) each frame continues from the previous one
  * 
  * @param params - Rendering parameters
- * @param drops - Array of drop objects tracking rain animation
+ * @param options - Direction, speed range and trail length
  */
-export function renderRainPattern(
-  params: RenderPatternParams,
-  drops: Drop[]
-): void {
-  const { ctx, layer, cols, rows, cellSize, randomSeeds } = params;
+export function renderRainPattern(params: RenderPatternParams, options: RainOptions): void {
+  const { target, layer, cols, rows, cellSize, frame, randomSeeds, seed, dropSimulations } = params;
   const layerConfig = layer.config;
   const layerSymbols = layerConfig.symbolSet.split('');
   const halfCell = Math.floor(cellSize / 2);
-  const colorBase = layerConfig.color;
 
-  let currentShadowBlur = -1;
-  
-  if (layerConfig.glowEffect) {
-    ctx.shadowColor = layerConfig.color;
-  }
+  // Drops run along lanes: columns for vertical rain, rows for horizontal rain
+  const isVertical = options.direction === 'down' || options.direction === 'up';
+  const isReversed = options.direction === 'up' || options.direction === 'left';
+  const lanes = isVertical ? cols : rows;
+  const extent = isVertical ? rows : cols;
+  const drops = dropSimulations
+    ? dropSimulations.getDrops(lanes, extent, seed, Math.floor(frame), options)
+    : getDropsAtFrame(createDrops(lanes, extent, seed, options), Math.floor(frame), extent, seed, options);
 
   drops.forEach((drop) => {
-    const dropX = drop.x;
     for (let j = 0; j < drop.length; j++) {
-      const y = drop.y - j;
-      if (y < 0 || y >= rows) continue;
+      const pos = drop.y - j;
+      if (pos < 0 || pos >= extent) continue;
 
-      const yInt = Math.floor(y);
+      const posInt = isReversed ? extent - 1 - Math.floor(pos) : Math.floor(pos);
+      const dropX = isVertical ? drop.x : posInt;
+      const yInt = isVertical ? posInt : drop.x;
       const shapeBrightness = getShapeBrightnessForLayer(dropX, yInt, cols, rows, layer);
       const alpha = (1 - (j / drop.length)) * shapeBrightness;
       const brightness = layerConfig.gradient 
@@ -55,24 +200,14 @@ export function renderRainPattern(
         : shapeBrightness;
       
       if (brightness > 0.1) {
-        const brightnessHex = brightnessToHex(brightness);
-        ctx.fillStyle = colorBase + brightnessHex;
-        
-        const targetBlur = layerConfig.glowEffect 
-          ? calculateGlowBlur(layerConfig.glowIntensity, brightness, layerConfig.glowRadius)
-          : 0;
-        if (currentShadowBlur !== targetBlur) {
-          ctx.shadowBlur = targetBlur;
-          currentShadowBlur = targetBlur;
-        }
-
         const seedIndex = (dropX + yInt) % randomSeeds.length;
         const symbolIndex = Math.floor(randomSeeds[seedIndex].r1 * layerSymbols.length);
         
-        ctx.fillText(
+        target.drawGlyph(
           layerSymbols[symbolIndex],
           dropX * cellSize + halfCell,
-          yInt * cellSize + halfCell
+          yInt * cellSize + halfCell,
+          brightness
         );
       }
     }
@@ -83,25 +218,27 @@ export function renderRainPattern(
  * Renders the wave pattern - undulating wave effect
  * 
  * @param params - Rendering parameters
+ * @param options - Direction, frequency, amplitude and speed
  */
-export function renderWavePattern(params: RenderPatternParams): void {
-  const { ctx, layer, cols, rows, cellSize, frame, randomSeeds } = params;
+export function renderWavePattern(params: RenderPatternParams, options: WaveOptions): void {
+  const { target, layer, cols, rows, cellSize, frame, randomSeeds } = params;
   const layerConfig = layer.config;
   const layerSymbols = layerConfig.symbolSet.split('');
   const halfCell = Math.floor(cellSize / 2);
-  const colorBase = layerConfig.color;
 
-  let currentShadowBlur = -1;
-  
-  if (layerConfig.glowEffect) {
-    ctx.shadowColor = layerConfig.color;
-  }
+  const angle = options.direction * Math.PI / 180;
+  const cosA = Math.cos(angle);
+  const sinA = Math.sin(angle);
+  const phase = frame * options.speed;
 
   for (let i = 0; i < cols; i++) {
     const iCellPos = i * cellSize + halfCell;
     for (let j = 0; j < rows; j++) {
-      const wave = Math.sin((i + frame * 0.1) * 0.3) * Math.cos((j + frame * 0.1) * 0.3);
-      const waveAlpha = (wave + 1) / 2;
+      // Rotate the grid so the wave travels along the chosen direction
+      const u = i * cosA + j * sinA;
+      const v = j * cosA - i * sinA;
+      const wave = Math.sin((u + phase) * options.frequency) * Math.cos((v + phase) * options.frequency);
+      const waveAlpha = Math.min(1, Math.max(0, (wave * options.amplitude + 1) / 2));
       const shapeBrightness = getShapeBrightnessForLayer(i, j, cols, rows, layer);
       const alpha = waveAlpha * shapeBrightness;
       
@@ -111,22 +248,13 @@ export function renderWavePattern(params: RenderPatternParams): void {
         const brightness = layerConfig.gradient 
           ? alpha * layerConfig.gradientStrength + (1 - layerConfig.gradientStrength) * shapeBrightness 
           : shapeBrightness;
-        const brightnessHex = brightnessToHex(brightness);
-        ctx.fillStyle = colorBase + brightnessHex;
-        
-        const targetBlur = layerConfig.glowEffect 
-          ? calculateGlowBlur(layerConfig.glowIntensity, brightness, layerConfig.glowRadius)
-          : 0;
-        if (currentShadowBlur !== targetBlur) {
-          ctx.shadowBlur = targetBlur;
-          currentShadowBlur = targetBlur;
-        }
 
         const symbolIndex = Math.floor(randomSeeds[seedIndex].r2 * layerSymbols.length);
-        ctx.fillText(
+        target.drawGlyph(
           layerSymbols[symbolIndex],
           iCellPos,
-          j * cellSize + halfCell
+          j * cellSize + halfCell,
+          brightness
         );
       }
     }
@@ -139,18 +267,12 @@ export function renderWavePattern(params: RenderPatternParams): void {
  * @param params - Rendering parameters
  */
 export function renderStaticPattern(params: RenderPatternParams): void {
-  const { ctx, layer, cols, rows, cellSize, frame, randomSeeds } = params;
+  const { target, layer, cols, rows, cellSize, frame, randomSeeds } = params;
   const layerConfig = layer.config;
   const layerSymbols = layerConfig.symbolSet.split('');
   const halfCell = Math.floor(cellSize / 2);
-  const colorBase = layerConfig.color;
 
   const frameOffset = (frame * 17) % randomSeeds.length;
-  let currentShadowBlur = -1;
-  
-  if (layerConfig.glowEffect) {
-    ctx.shadowColor = layerConfig.color;
-  }
   
   for (let i = 0; i < cols; i++) {
     const iCellPos = i * cellSize + halfCell;
@@ -163,22 +285,13 @@ export function renderStaticPattern(params: RenderPatternParams): void {
         const brightness = layerConfig.gradient 
           ? randomSeeds[seedIndex].r2 * shapeBrightness * layerConfig.gradientStrength + (1 - layerConfig.gradientStrength) * shapeBrightness 
           : shapeBrightness;
-        const brightnessHex = brightnessToHex(brightness);
-        ctx.fillStyle = colorBase + brightnessHex;
-        
-        const targetBlur = layerConfig.glowEffect 
-          ? calculateGlowBlur(layerConfig.glowIntensity, brightness, layerConfig.glowRadius)
-          : 0;
-        if (currentShadowBlur !== targetBlur) {
-          ctx.shadowBlur = targetBlur;
-          currentShadowBlur = targetBlur;
-        }
 
         const symbolIndex = Math.floor(randomSeeds[seedIndex].r3 * layerSymbols.length);
-        ctx.fillText(
+        target.drawGlyph(
           layerSymbols[symbolIndex],
           iCellPos,
-          j * cellSize + halfCell
+          j * cellSize + halfCell,
+          brightness
         );
       }
     }
@@ -189,24 +302,20 @@ export function renderStaticPattern(params: RenderPatternParams): void {
  * Renders the glitch pattern - random digital glitches and offsets
  * 
  * @param params - Rendering parameters
+ * @param options - Burst timing and displacement
  */
-export function renderGlitchPattern(params: RenderPatternParams): void {
-  const { ctx, layer, cols, rows, cellSize, frame, randomSeeds } = params;
+export function renderGlitchPattern(params: RenderPatternParams, options: GlitchOptions): void {
+  const { target, layer, cols, rows, cellSize, frame, randomSeeds } = params;
   const layerConfig = layer.config;
   const layerSymbols = layerConfig.symbolSet.split('');
   const halfCell = Math.floor(cellSize / 2);
-  const colorBase = layerConfig.color;
 
-  const glitchCycle = frame % 80;
-  const isGlitching = glitchCycle < 5 || (glitchCycle > 30 && glitchCycle < 35);
+  const { burstLength, secondBurstAt } = options;
+  const glitchCycle = frame % Math.max(1, options.cycleLength);
+  const isGlitching = glitchCycle < burstLength ||
+    (secondBurstAt > 0 && glitchCycle > secondBurstAt && glitchCycle < secondBurstAt + burstLength);
   const glitchIntensity = isGlitching ? (Math.sin(frame * 0.5) + 1) / 2 : 0;
   
-  let currentShadowBlur = -1;
-  
-  if (layerConfig.glowEffect) {
-    ctx.shadowColor = layerConfig.color;
-  }
-  
   for (let i = 0; i < cols; i++) {
     const iCellPos = i * cellSize + halfCell;
     for (let j = 0; j < rows; j++) {
@@ -217,10 +326,10 @@ export function renderGlitchPattern(params: RenderPatternParams): void {
       let offsetY = 0;
       if (isGlitching) {
         const glitchSeedIndex = (seedIndex + frame) % randomSeeds.length;
-        const shouldGlitch = randomSeeds[glitchSeedIndex].r1 < 0.15;
+        const shouldGlitch = randomSeeds[glitchSeedIndex].r1 < options.glitchChance;
         if (shouldGlitch) {
-          offsetX = (randomSeeds[glitchSeedIndex].r2 - 0.5) * 30 * glitchIntensity;
-          offsetY = (randomSeeds[glitchSeedIndex].r3 - 0.5) * 10 * glitchIntensity;
+          offsetX = (randomSeeds[glitchSeedIndex].r2 - 0.5) * options.displacementX * glitchIntensity;
+          offsetY = (randomSeeds[glitchSeedIndex].r3 - 0.5) * options.displacementY * glitchIntensity;
         }
       }
       
@@ -228,22 +337,13 @@ export function renderGlitchPattern(params: RenderPatternParams): void {
         const brightness = layerConfig.gradient 
           ? (0.5 + randomSeeds[seedIndex].r3 * 0.5) * shapeBrightness * layerConfig.gradientStrength + (1 - layerConfig.gradientStrength) * shapeBrightness 
           : shapeBrightness;
-        const brightnessHex = brightnessToHex(brightness);
-        ctx.fillStyle = colorBase + brightnessHex;
-        
-        const targetBlur = layerConfig.glowEffect 
-          ? calculateGlowBlur(layerConfig.glowIntensity, brightness, layerConfig.glowRadius)
-          : 0;
-        if (currentShadowBlur !== targetBlur) {
-          ctx.shadowBlur = targetBlur;
-          currentShadowBlur = targetBlur;
-        }
 
         const symbolIndex = Math.floor(randomSeeds[seedIndex].r1 * layerSymbols.length);
-        ctx.fillText(
+        target.drawGlyph(
           layerSymbols[symbolIndex],
           iCellPos + offsetX,
-          j * cellSize + halfCell + offsetY
+          j * cellSize + halfCell + offsetY,
+          brightness
         );
       }
     }
@@ -251,27 +351,24 @@ export function renderGlitchPattern(params: RenderPatternParams): void {
 }
 
 /**
- * Renders the pulse pattern - pulsing from center outward
+ * Renders the pulse pattern - pulsing from an origin outward
  * 
  * @param params - Rendering parameters
+ * @param options - Origin, rate and ring count
  */
-export function renderPulsePattern(params: RenderPatternParams): void {
-  const { ctx, layer, cols, rows, cellSize, frame, randomSeeds } = params;
+export function renderPulsePattern(params: RenderPatternParams, options: PulseOptions): void {
+  const { target, layer, cols, rows, cellSize, frame, randomSeeds } = params;
   const layerConfig = layer.config;
   const layerSymbols = layerConfig.symbolSet.split('');
   const halfCell = Math.floor(cellSize / 2);
-  const colorBase = layerConfig.color;
 
-  const pulse = (Math.sin(frame * 0.05) + 1) / 2;
-  const centerX = cols / 2;
-  const centerY = rows / 2;
-  const maxDist = Math.sqrt(centerX * centerX + centerY * centerY);
-  
-  let currentShadowBlur = -1;
-  
-  if (layerConfig.glowEffect) {
-    ctx.shadowColor = layerConfig.color;
-  }
+  const wholePulse = (Math.sin(frame * options.rate) + 1) / 2;
+  const centerX = cols * options.originX;
+  const centerY = rows * options.originY;
+  // Distance to the farthest corner
+  const farX = Math.max(centerX, cols - centerX);
+  const farY = Math.max(centerY, rows - centerY);
+  const maxDist = Math.sqrt(farX * farX + farY * farY) || 1;
   
   for (let i = 0; i < cols; i++) {
     const dx = i - centerX;
@@ -281,6 +378,10 @@ export function renderPulsePattern(params: RenderPatternParams): void {
       const dy = j - centerY;
       const dist = Math.sqrt(dx * dx + dy * dy);
       const normalizedDist = dist / maxDist;
+      // Rings travel outward as the phase advances
+      const pulse = options.rings > 0
+        ? (Math.sin(normalizedDist * options.rings * 2 * Math.PI - frame * options.rate) + 1) / 2
+        : wholePulse;
       
       const seedIndex = (i * rows + j) % randomSeeds.length;
       
@@ -288,25 +389,147 @@ export function renderPulsePattern(params: RenderPatternParams): void {
         const brightness = layerConfig.gradient 
           ? (1 - normalizedDist) * pulse * shapeBrightness * layerConfig.gradientStrength + (1 - layerConfig.gradientStrength) * shapeBrightness 
           : shapeBrightness;
-        const brightnessHex = brightnessToHex(brightness);
-        ctx.fillStyle = colorBase + brightnessHex;
-        
-        const targetBlur = layerConfig.glowEffect 
-          ? calculateGlowBlur(layerConfig.glowIntensity, brightness, layerConfig.glowRadius)
-          : 0;
-        if (currentShadowBlur !== targetBlur) {
-          ctx.shadowBlur = targetBlur;
-          currentShadowBlur = targetBlur;
-        }
 
         const symbolIndex = Math.floor(randomSeeds[seedIndex].r2 * layerSymbols.length);
-        ctx.fillText(
+        target.drawGlyph(
           layerSymbols[symbolIndex],
           iCellPos,
-          j * cellSize + halfCell
+          j * cellSize + halfCell,
+          brightness
         );
       }
     }
   }
 }
 
+/**
+ * Last dither result per shape guide
+ * The result only depends on the guide, grid and options, so it is reused across frames
+ */
+const ditherCache = new WeakMap<object, { key: string; levels: Uint8Array }>();
+/** Cache slot for layers without a shape guide */
+const NO_SHAPE = {};
+
+/**
+ * Brightness of the layer's shape guide at a cell, for patterns that render the guide itself
+ * Without a shape guide a left-to-right ramp is used, which previews the mapping
+ */
+function getGuideBrightness(layer: Layer, i: number, j: number, cols: number, rows: number): number {
+  return layer.shapeData
+    ? getShapeBrightnessForLayer(i, j, cols, rows, layer)
+    : (i + 0.5) / cols;
+}
+
+/**
+ * Dithers the layer's shape guide onto the grid
+ */
+function getDitheredLevels(layer: Layer, cols: number, rows: number, options: DitherOptions): Uint8Array {
+  const cacheSlot = layer.shapeData ?? NO_SHAPE;
+  const { shapeInfluence, shapeFit, shapeOffsetX, shapeOffsetY, shapeScale, shapeRotation } = layer.config;
+  const key = [
+    cols,
+    rows,
+    shapeInfluence,
+    shapeFit,
+    shapeOffsetX,
+    shapeOffsetY,
+    shapeScale,
+    shapeRotation,
+    options.algorithm,
+    options.levels,
+    options.serpentine
+  ].join();
+  const cached = ditherCache.get(cacheSlot);
+  if (cached && cached.key === key) return cached.levels;
+
+  const values = new Float32Array(cols * rows);
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      values[j * cols + i] = getGuideBrightness(layer, i, j, cols, rows);
+    }
+  }
+
+  const levels = ditherGrid(values, cols, rows, options.algorithm, options.levels, options.serpentine);
+  ditherCache.set(cacheSlot, { key, levels });
+  return levels;
+}
+
+/**
+ * Renders the dither pattern - the shape guide dithered into symbols
+ * Lit cells get a symbol from the layer's symbol set; with more than two levels the
+ * level also sets the glyph brightness (when gradient is on)
+ * 
+ * @param params - Rendering parameters
+ * @param options - Algorithm, level count and symbol mapping
+ */
+export function renderDitherPattern(params: RenderPatternParams, options: DitherOptions): void {
+  const { target, layer, cols, rows, cellSize, randomSeeds } = params;
+  const layerConfig = layer.config;
+  const layerSymbols = layerConfig.symbolSet.split('');
+  const halfCell = Math.floor(cellSize / 2);
+
+  const levels = getDitheredLevels(layer, cols, rows, options);
+  const steps = Math.max(1, Math.round(options.levels) - 1);
+
+  for (let i = 0; i < cols; i++) {
+    const iCellPos = i * cellSize + halfCell;
+    for (let j = 0; j < rows; j++) {
+      const level = levels[j * cols + i];
+      if (level === 0) continue;
+
+      const levelBrightness = level / steps;
+      const brightness = layerConfig.gradient 
+        ? levelBrightness * layerConfig.gradientStrength + (1 - layerConfig.gradientStrength) 
+        : 1;
+
+      const symbolIndex = options.symbols === 'level'
+        ? Math.min(layerSymbols.length - 1, Math.floor(((level - 1) / steps) * layerSymbols.length))
+        : Math.floor(randomSeeds[(i * rows + j) % randomSeeds.length].r1 * layerSymbols.length);
+      target.drawGlyph(
+        layerSymbols[symbolIndex],
+        iCellPos,
+        j * cellSize + halfCell,
+        brightness
+      );
+    }
+  }
+}
+
+/**
+ * Renders the ASCII pattern - the shape guide drawn with glyphs of matching density
+ * The layer's symbols are sorted by measured ink coverage and each cell gets the glyph
+ * whose coverage is closest to the guide brightness
+ * 
+ * @param params - Rendering parameters
+ * @param options - Invert, contrast and blank cells
+ */
+export function renderAsciiPattern(params: RenderPatternParams, options: AsciiOptions): void {
+  const { target, layer, cols, rows, cellSize } = params;
+  const layerConfig = layer.config;
+  const halfCell = Math.floor(cellSize / 2);
+
+  const ramp = getGlyphRamp(layerConfig.symbolSet, getGlyphFontSize(cellSize), options.blank);
+  if (ramp.length === 0) return;
+
+  for (let i = 0; i < cols; i++) {
+    const iCellPos = i * cellSize + halfCell;
+    for (let j = 0; j < rows; j++) {
+      const guide = getGuideBrightness(layer, i, j, cols, rows);
+      const contrasted = Math.min(1, Math.max(0, (guide - 0.5) * options.contrast + 0.5));
+      const value = options.invert ? 1 - contrasted : contrasted;
+
+      const glyph = pickGlyph(ramp, value);
+      if (glyph.symbol === '') continue;
+
+      const brightness = layerConfig.gradient 
+        ? value * layerConfig.gradientStrength + (1 - layerConfig.gradientStrength) 
+        : 1;
+      target.drawGlyph(
+        glyph.symbol,
+        iCellPos,
+        j * cellSize + halfCell,
+        brightness
+      );
+    }
+  }
+}
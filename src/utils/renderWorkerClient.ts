@@ -0,0 +1,201 @@
+/**
+ * Main-thread side of the render worker
+ * Transfers the display canvas to the worker once it has started and streams scenes to it
+ */
+
+import type { RandomSeed, RenderScene, RenderWorkerLayer, RenderWorkerRequest, RenderWorkerResponse } from '@/types';
+
+/**
+ * Handle for rendering on a canvas owned by the render worker
+ */
+export interface RenderWorkerClient {
+  /** Render a scene at a frame; frames requested while the worker is busy collapse into the latest */
+  render: (scene: RenderScene, frame: number) => void;
+}
+
+/**
+ * Error raised when the render worker fails as a whole (a single frame failing is not fatal)
+ */
+export class RenderWorkerError extends Error {
+  /** Whether the canvas had been handed to the worker (the main thread cannot draw on it anymore) */
+  readonly canvasTransferred: boolean;
+
+  constructor(message: string, canvasTransferred: boolean) {
+    super(message);
+    this.name = 'RenderWorkerError';
+    this.canvasTransferred = canvasTransferred;
+  }
+}
+
+/** Clients by canvas: control of a canvas can only be transferred once */
+const clients = new WeakMap<HTMLCanvasElement, RenderWorkerClient>();
+
+/** Canvases whose worker failed before taking them over; they render on the main thread */
+const workerlessCanvases = new WeakSet<HTMLCanvasElement>();
+
+/**
+ * Whether this browser can render in a worker
+ */
+export function supportsRenderWorker(canvas: HTMLCanvasElement): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof canvas.transferControlToOffscreen === 'function';
+}
+
+/**
+ * Creates the worker and hands it the canvas once the worker reports it is ready
+ * Until then frames are queued, so a worker that never starts (e.g. no module worker
+ * support) leaves the canvas untouched for the main thread
+ */
+function createRenderWorkerClient(
+  canvas: HTMLCanvasElement,
+  onError: (error: RenderWorkerError) => void,
+  onFrameError: (message: string | null) => void
+): RenderWorkerClient {
+  const worker = new Worker(new URL('../workers/renderWorker.ts', import.meta.url), { type: 'module' });
+  const post = (message: RenderWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  let status: 'starting' | 'ready' | 'failed' = 'starting';
+  let nextShapeId = 1;
+  // Brightness maps the worker holds
+  let shapeIds = new Map<number[][], number>();
+  let sentSeeds: RandomSeed[] | null = null;
+  let isBusy = false;
+  let pending: { scene: RenderScene; frame: number } | null = null;
+
+  const send = (scene: RenderScene, frame: number) => {
+    if (scene.randomSeeds !== sentSeeds) {
+      post({ type: 'seeds', randomSeeds: scene.randomSeeds });
+      sentSeeds = scene.randomSeeds;
+    }
+
+    // Only brightness maps the worker has not seen are copied
+    const heldShapes = new Map<number[][], number>();
+    const addShapes: [number, number[][]][] = [];
+    const layers: RenderWorkerLayer[] = scene.layers.map((layer) => {
+      let shapeDataId: number | null = null;
+      if (layer.shapeData) {
+        shapeDataId = shapeIds.get(layer.shapeData) ?? heldShapes.get(layer.shapeData) ?? null;
+        if (shapeDataId === null) {
+          shapeDataId = nextShapeId++;
+          addShapes.push([shapeDataId, layer.shapeData]);
+        }
+        heldShapes.set(layer.shapeData, shapeDataId);
+      }
+      return {
+        id: layer.id,
+        name: layer.name,
+        visible: layer.visible,
+        opacity: layer.opacity,
+        blendMode: layer.blendMode,
+        maskMode: layer.maskMode,
+        maskInvert: layer.maskInvert,
+        config: layer.config,
+        shapeDataId
+      };
+    });
+    const removeShapes = Array.from(shapeIds)
+      .filter(([shapeData]) => !heldShapes.has(shapeData))
+      .map(([, id]) => id);
+    shapeIds = heldShapes;
+
+    post({
+      type: 'render',
+      frame,
+      width: scene.width,
+      height: scene.height,
+      seed: scene.seed,
+      backend: scene.backend,
+      bloom: scene.bloom,
+      postEffects: scene.postEffects,
+      layers,
+      addShapes,
+      removeShapes
+    });
+    isBusy = true;
+  };
+
+  const sendPending = () => {
+    if (pending) {
+      const { scene, frame } = pending;
+      pending = null;
+      send(scene, frame);
+    }
+  };
+
+  const fail = (message: string) => {
+    if (status === 'failed') return;
+    const canvasTransferred = status === 'ready';
+    status = 'failed';
+    pending = null;
+    worker.terminate();
+    if (!canvasTransferred) {
+      clients.delete(canvas);
+      workerlessCanvases.add(canvas);
+    }
+    onError(new RenderWorkerError(
+      canvasTransferred
+        ? `Render worker stopped (${message}); reload the page to continue`
+        : `Render worker could not start (${message}); rendering on the main thread`,
+      canvasTransferred
+    ));
+  };
+
+  worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+    if (status === 'failed') return;
+    if (event.data.type === 'ready') {
+      const offscreen = canvas.transferControlToOffscreen();
+      post({ type: 'init', canvas: offscreen }, [offscreen]);
+      status = 'ready';
+      sendPending();
+      return;
+    }
+    isBusy = false;
+    onFrameError(event.data.error === null ? null : `Frame ${event.data.frame} could not be rendered (${event.data.error})`);
+    sendPending();
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    fail(event.message || 'worker error');
+  };
+  worker.onmessageerror = () => fail('message could not be read');
+
+  return {
+    render: (scene, frame) => {
+      if (status === 'failed') return;
+      if (status === 'starting' || isBusy) {
+        pending = { scene, frame };
+        return;
+      }
+      send(scene, frame);
+    }
+  };
+}
+
+/**
+ * Gets the render worker client of a canvas, starting the worker on first use
+ * Once the worker is ready it takes over the canvas, which can then no longer be drawn on
+ * (or resized) from the main thread
+ *
+ * @param canvas - Display canvas
+ * @param onError - Called if the worker fails (only for the call that starts it)
+ * @param onFrameError - Called after each frame with why it could not be drawn (null if it was)
+ * @returns Client, or null if the browser cannot render in a worker (or the worker failed to start)
+ *
+ * @example
+ * const client = getRenderWorkerClient(canvas, error => setRenderError(error.message), setFrameError);
+ * client?.render(scene, frame);
+ */
+export function getRenderWorkerClient(
+  canvas: HTMLCanvasElement,
+  onError: (error: RenderWorkerError) => void,
+  onFrameError: (message: string | null) => void
+): RenderWorkerClient | null {
+  if (!supportsRenderWorker(canvas) || workerlessCanvases.has(canvas)) return null;
+  let client = clients.get(canvas);
+  if (!client) {
+    client = createRenderWorkerClient(canvas, onError, onFrameError);
+    clients.set(canvas, client);
+  }
+  return client;
+}
@@ -0,0 +1,168 @@
+/**
+ * Shape guide preprocessing
+ * Turns the pixels of a shape guide into its brightness map through an adjustable chain:
+ * channel → blur → edge detection → levels/gamma → contrast → threshold → invert
+ */
+
+import type { LayerConfig } from '@/types';
+
+/**
+ * Preprocessing settings (the processing fields of LayerConfig)
+ */
+export type ShapeProcessing = Pick<
+  LayerConfig,
+  | 'shapeChannel'
+  | 'shapeBlur'
+  | 'shapeEdges'
+  | 'shapeBlackPoint'
+  | 'shapeWhitePoint'
+  | 'shapeGamma'
+  | 'shapeContrast'
+  | 'shapeThreshold'
+  | 'shapeInvert'
+>;
+
+/**
+ * Config fields that change the brightness map when edited
+ */
+export const SHAPE_PROCESSING_KEYS: (keyof ShapeProcessing)[] = [
+  'shapeChannel',
+  'shapeBlur',
+  'shapeEdges',
+  'shapeBlackPoint',
+  'shapeWhitePoint',
+  'shapeGamma',
+  'shapeContrast',
+  'shapeThreshold',
+  'shapeInvert'
+];
+
+/** Box blur passes; three passes approximate a Gaussian */
+const BLUR_PASSES = 3;
+
+/**
+ * Extracts one brightness value per pixel
+ * Color channels are weighted by alpha, so transparent areas are dark
+ */
+function extractChannel(pixels: ImageData, channel: ShapeProcessing['shapeChannel']): Float32Array {
+  const { data } = pixels;
+  const values = new Float32Array(pixels.width * pixels.height);
+  for (let i = 0; i < values.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const alpha = data[i * 4 + 3] / 255;
+    let value: number;
+    switch (channel) {
+      case 'luminance':
+        // Rec.709 luma weights
+        value = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+        break;
+      case 'red':
+        value = r / 255;
+        break;
+      case 'green':
+        value = g / 255;
+        break;
+      case 'blue':
+        value = b / 255;
+        break;
+      case 'alpha':
+        value = 1;
+        break;
+      default:
+        value = (r + g + b) / 3 / 255;
+    }
+    values[i] = value * alpha;
+  }
+  return values;
+}
+
+/**
+ * Separable box blur with clamped edges, repeated BLUR_PASSES times
+ */
+function blur(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const r = Math.round(radius);
+  if (r <= 0) return values;
+
+  let source: Float32Array = values;
+  let target: Float32Array = new Float32Array(values.length);
+  const size = 2 * r + 1;
+
+  const blurLine = (start: number, step: number, length: number) => {
+    let sum = 0;
+    for (let k = -r; k <= r; k++) {
+      sum += source[start + Math.min(length - 1, Math.max(0, k)) * step];
+    }
+    for (let n = 0; n < length; n++) {
+      target[start + n * step] = sum / size;
+      sum += source[start + Math.min(length - 1, n + r + 1) * step] - source[start + Math.max(0, n - r) * step];
+    }
+  };
+
+  for (let pass = 0; pass < BLUR_PASSES; pass++) {
+    for (let y = 0; y < height; y++) blurLine(y * width, 1, width);
+    [source, target] = [target, source];
+    for (let x = 0; x < width; x++) blurLine(x, width, height);
+    [source, target] = [target, source];
+  }
+  return source;
+}
+
+/**
+ * Sobel edge magnitude, scaled so a hard 0-1 edge reaches 1
+ */
+function detectEdges(values: Float32Array, width: number, height: number): Float32Array {
+  const edges = new Float32Array(values.length);
+  const at = (x: number, y: number) =>
+    values[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1)
+        - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1)
+        - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      edges[y * width + x] = Math.min(1, Math.sqrt(gx * gx + gy * gy) / 4);
+    }
+  }
+  return edges;
+}
+
+/**
+ * Runs the preprocessing chain on a shape guide's pixels
+ *
+ * @param pixels - RGBA pixels of the (downscaled) guide image
+ * @param settings - Preprocessing settings of the layer
+ * @returns Brightness map (rows of 0-1 values)
+ *
+ * @example
+ * const shapeData = processShapePixels(pixels, layer.config);
+ */
+export function processShapePixels(pixels: ImageData, settings: ShapeProcessing): number[][] {
+  const { width, height } = pixels;
+  let values = extractChannel(pixels, settings.shapeChannel);
+  values = blur(values, width, height, settings.shapeBlur);
+  if (settings.shapeEdges) {
+    values = detectEdges(values, width, height);
+  }
+
+  const levelRange = Math.max(0.001, settings.shapeWhitePoint - settings.shapeBlackPoint);
+  const gammaExponent = 1 / Math.max(0.01, settings.shapeGamma);
+
+  const brightnessMap: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < width; x++) {
+      let value = Math.min(1, Math.max(0, (values[y * width + x] - settings.shapeBlackPoint) / levelRange));
+      value = Math.pow(value, gammaExponent);
+      value = Math.min(1, Math.max(0, (value - 0.5) * settings.shapeContrast + 0.5));
+      if (settings.shapeThreshold > 0) {
+        value = value >= settings.shapeThreshold ? 1 : 0;
+      }
+      row.push(settings.shapeInvert ? 1 - value : value);
+    }
+    brightnessMap.push(row);
+  }
+  return brightnessMap;
+}
@@ -0,0 +1,159 @@
+/**
+ * Shape guide sampling
+ * Maps the grid onto a shape guide (fit, offset, scale, rotation) and averages the
+ * image area under each cell using a summed-area table
+ */
+
+import type { LayerConfig } from '@/types';
+
+/**
+ * Placement settings of a shape guide (the shape fields of LayerConfig)
+ */
+export type ShapeTransform = Pick<LayerConfig, 'shapeFit' | 'shapeOffsetX' | 'shapeOffsetY' | 'shapeScale' | 'shapeRotation'>;
+
+/** Summed-area table per brightness map */
+const summedAreaCache = new WeakMap<number[][], Float64Array>();
+/** Last sampled grid per brightness map */
+const gridCache = new WeakMap<number[][], { key: string; grid: Float32Array }>();
+
+/**
+ * Builds a summed-area table: entry (x, y) holds the sum of all pixels above and left of it
+ * The table is (width + 1) × (height + 1) so lookups need no bounds checks
+ */
+function getSummedAreaTable(shapeData: number[][]): Float64Array {
+  let table = summedAreaCache.get(shapeData);
+  if (table) return table;
+
+  const height = shapeData.length;
+  const width = shapeData[0].length;
+  const stride = width + 1;
+  table = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += shapeData[y][x];
+      table[(y + 1) * stride + x + 1] = table[y * stride + x + 1] + rowSum;
+    }
+  }
+  summedAreaCache.set(shapeData, table);
+  return table;
+}
+
+/**
+ * Size of the shape guide on the grid in cells, before the user scale
+ */
+function getFittedSize(fit: LayerConfig['shapeFit'], width: number, height: number, cols: number, rows: number) {
+  switch (fit) {
+    case 'contain': {
+      const scale = Math.min(cols / width, rows / height);
+      return { fittedWidth: width * scale, fittedHeight: height * scale };
+    }
+    case 'cover': {
+      const scale = Math.max(cols / width, rows / height);
+      return { fittedWidth: width * scale, fittedHeight: height * scale };
+    }
+    case 'stretch':
+      return { fittedWidth: cols, fittedHeight: rows };
+    default:
+      return { fittedWidth: width, fittedHeight: height };
+  }
+}
+
+/**
+ * Samples a shape guide for every cell of a grid
+ * Each cell averages the image area it covers, so large images are smoothly downsampled
+ * and the result no longer depends on the image resolution
+ *
+ * @param shapeData - Brightness map (rows of 0-1 values)
+ * @param cols - Grid columns
+ * @param rows - Grid rows
+ * @param transform - Fit mode, offset, scale and rotation
+ * @returns Brightness per cell, row by row; NaN where the cell is outside the guide
+ */
+export function sampleShapeGrid(
+  shapeData: number[][],
+  cols: number,
+  rows: number,
+  transform: ShapeTransform
+): Float32Array {
+  const grid = new Float32Array(cols * rows);
+  const height = shapeData.length;
+  const width = height > 0 ? shapeData[0].length : 0;
+  if (width === 0) return grid.fill(NaN);
+
+  const table = getSummedAreaTable(shapeData);
+  const stride = width + 1;
+
+  const { fittedWidth, fittedHeight } = getFittedSize(transform.shapeFit, width, height, cols, rows);
+  const scale = transform.shapeScale > 0 ? transform.shapeScale : 1;
+  // Image pixels per grid cell
+  const pixelsPerCellX = width / (fittedWidth * scale);
+  const pixelsPerCellY = height / (fittedHeight * scale);
+
+  const angle = transform.shapeRotation * Math.PI / 180;
+  const cosA = Math.cos(angle);
+  const sinA = Math.sin(angle);
+  // A rotated cell is averaged over its bounding box
+  const spread = Math.abs(cosA) + Math.abs(sinA);
+  const halfFootprintX = Math.max(0.5, pixelsPerCellX * spread / 2);
+  const halfFootprintY = Math.max(0.5, pixelsPerCellY * spread / 2);
+
+  const centerX = cols / 2 + transform.shapeOffsetX * cols;
+  const centerY = rows / 2 + transform.shapeOffsetY * rows;
+  const isTiled = transform.shapeFit === 'tile';
+
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      // Cell center relative to the guide center, rotated into the guide's frame
+      const dx = i + 0.5 - centerX;
+      const dy = j + 0.5 - centerY;
+      const u = dx * cosA + dy * sinA;
+      const v = dy * cosA - dx * sinA;
+      let px = u * pixelsPerCellX + width / 2;
+      let py = v * pixelsPerCellY + height / 2;
+
+      if (isTiled) {
+        px = ((px % width) + width) % width;
+        py = ((py % height) + height) % height;
+      } else if (px < 0 || px >= width || py < 0 || py >= height) {
+        grid[j * cols + i] = NaN;
+        continue;
+      }
+
+      const x0 = Math.min(width - 1, Math.max(0, Math.round(px - halfFootprintX)));
+      const x1 = Math.max(x0 + 1, Math.min(width, Math.round(px + halfFootprintX)));
+      const y0 = Math.min(height - 1, Math.max(0, Math.round(py - halfFootprintY)));
+      const y1 = Math.max(y0 + 1, Math.min(height, Math.round(py + halfFootprintY)));
+      const sum = table[y1 * stride + x1] - table[y0 * stride + x1] - table[y1 * stride + x0] + table[y0 * stride + x0];
+      grid[j * cols + i] = sum / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return grid;
+}
+
+/**
+ * Sampled shape grid for a layer, reused until the guide, grid or placement changes
+ *
+ * @param shapeData - Layer brightness map
+ * @param cols - Grid columns
+ * @param rows - Grid rows
+ * @param config - Layer configuration (shape fields)
+ * @returns Brightness per cell, NaN outside the guide
+ */
+export function getShapeGrid(shapeData: number[][], cols: number, rows: number, config: ShapeTransform): Float32Array {
+  const key = [
+    cols,
+    rows,
+    config.shapeFit,
+    config.shapeOffsetX,
+    config.shapeOffsetY,
+    config.shapeScale,
+    config.shapeRotation
+  ].join();
+  const cached = gridCache.get(shapeData);
+  if (cached && cached.key === key) return cached.grid;
+
+  const grid = sampleShapeGrid(shapeData, cols, rows, config);
+  gridCache.set(shapeData, { key, grid });
+  return grid;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_OUTPUT_SIZE } from './canvasSize';
+import { MAX_OUTPUT_SIZE } from './constants';
+import { ProjectFileError } from './projectFile';
+import { decodeShareHash } from './shareUrl';
+
+/**
+ * Builds an uncompressed link by hand, as someone crafting a link would
+ */
+function craftHash(payload: unknown): string {
+  const binary = String.fromCharCode(...new TextEncoder().encode(JSON.stringify(payload)));
+  return '#p=j' + btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+describe('decodeShareHash', () => {
+  it('clamps out-of-range numbers from a crafted link', async () => {
+    const project = await decodeShareHash(craftHash({
+      v: 1,
+      s: 7,
+      a: 'layer-1',
+      l: [{
+        i: 'layer-1',
+        n: 'Layer 1',
+        o: 1,
+        c: { cellSize: 0, density: -3, shapeBlur: 1e9, glowRadius: 1e9, proceduralOctaves: 1000 }
+      }],
+      bl: { enabled: true, threshold: 5, radius: 1e9, strength: -1, replaceGlow: false },
+      cs: { mode: 'fixed', preset: 'custom', width: 1e9, height: 0 }
+    }));
+
+    const config = project.layers[0].config;
+    expect(config.cellSize).toBe(6);
+    expect(config.density).toBe(0.1);
+    expect(config.shapeBlur).toBe(20);
+    expect(config.glowRadius).toBe(30);
+    expect(config.proceduralOctaves).toBe(8);
+    expect(project.bloom).toMatchObject({ threshold: 1, radius: 256, strength: 0 });
+    expect(project.canvasSizeSettings).toMatchObject({ width: MAX_OUTPUT_SIZE, height: MIN_OUTPUT_SIZE });
+  });
+
+  it('rejects links that are not projects', async () => {
+    await expect(decodeShareHash(craftHash({ v: 1 }))).rejects.toThrow(ProjectFileError);
+  });
+});
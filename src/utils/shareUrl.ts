@@ -0,0 +1,210 @@
+/**
+ * Shareable links: compact encoding of a project into the URL hash
+ */
+
+import type { BlendMode, BloomSettings, CanvasSizeSettings, LayerConfig, MaskMode, PostEffectSettings, ProjectFile } from '@/types';
+import { DEFAULT_BLOOM_SETTINGS, DEFAULT_CANVAS_SIZE_SETTINGS, DEFAULT_LAYER_CONFIG } from './constants';
+import { PROJECT_FORMAT, ProjectFileError, validateProject } from './projectFile';
+import { createDefaultPostEffects } from './postEffects';
+
+/** Hash parameter holding the encoded project, e.g. #p=z... */
+const SHARE_HASH_PREFIX = '#p=';
+
+/** Payload markers: deflate-compressed or plain JSON */
+const COMPRESSED_MARKER = 'z';
+const PLAIN_MARKER = 'j';
+
+/**
+ * Compact link payload
+ * Short keys, and only config fields that differ from the defaults
+ */
+interface SharePayload {
+  /** Project file version */
+  v: number;
+  /** Seed */
+  s: number;
+  /** Active layer id */
+  a: string;
+  /** Layers in bottom-to-top order */
+  l: {
+    /** Id */
+    i: string;
+    /** Name */
+    n: string;
+    /** Opacity */
+    o: number;
+    /** Present (1) when the layer is hidden */
+    h?: 1;
+    /** Blend mode, when not normal */
+    b?: BlendMode;
+    /** Mask mode, when the layer is a mask */
+    m?: MaskMode;
+    /** Present (1) when the mask is inverted */
+    mi?: 1;
+    /** Config fields that differ from DEFAULT_LAYER_CONFIG */
+    c: Partial<LayerConfig>;
+    /** Shape guide data URL, when included */
+    g?: string;
+  }[];
+  /** Bloom settings, when they differ from the defaults */
+  bl?: BloomSettings;
+  /** Post-effect stack, when it differs from the default (all off, built-in order) */
+  pe?: PostEffectSettings[];
+  /** Canvas size settings, when they differ from the default (responsive) */
+  cs?: CanvasSizeSettings;
+}
+
+/**
+ * Base64url without padding, safe to use in a URL hash
+ */
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlToBytes(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Pipes bytes through a (de)compression stream
+ */
+async function transformBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Encodes a project into a URL hash
+ * Uses deflate when the browser supports CompressionStream, plain JSON otherwise
+ *
+ * @param project - Project to share
+ * @param includeShapes - Embed shape guide images (can make links very long)
+ * @returns Hash string starting with '#'
+ *
+ * @example
+ * history.replaceState(null, '', await encodeShareHash(project, false));
+ */
+export async function encodeShareHash(project: ProjectFile, includeShapes: boolean): Promise<string> {
+  const payload: SharePayload = {
+    v: project.version,
+    s: project.seed,
+    a: project.activeLayerId,
+    l: project.layers.map((layer) => {
+      const changed: Partial<LayerConfig> = {};
+      (Object.keys(layer.config) as (keyof LayerConfig)[]).forEach((key) => {
+        if (key === 'patternParams' && Object.keys(layer.config.patternParams).length === 0) return;
+        if (layer.config[key] !== DEFAULT_LAYER_CONFIG[key]) {
+          (changed as Record<string, unknown>)[key] = layer.config[key];
+        }
+      });
+      return {
+        i: layer.id,
+        n: layer.name,
+        o: layer.opacity,
+        ...(layer.visible ? {} : { h: 1 as const }),
+        ...(layer.blendMode === 'source-over' ? {} : { b: layer.blendMode }),
+        ...(layer.maskMode === 'none' ? {} : { m: layer.maskMode }),
+        ...(layer.maskInvert ? { mi: 1 as const } : {}),
+        c: changed,
+        ...(includeShapes && layer.shapeImage ? { g: layer.shapeImage } : {})
+      };
+    }),
+    ...((Object.keys(project.bloom) as (keyof BloomSettings)[]).some(key => project.bloom[key] !== DEFAULT_BLOOM_SETTINGS[key])
+      ? { bl: project.bloom }
+      : {}),
+    ...(JSON.stringify(project.postEffects) !== JSON.stringify(createDefaultPostEffects())
+      ? { pe: project.postEffects }
+      : {}),
+    ...((Object.keys(project.canvasSizeSettings) as (keyof CanvasSizeSettings)[])
+      .some(key => project.canvasSizeSettings[key] !== DEFAULT_CANVAS_SIZE_SETTINGS[key])
+      ? { cs: project.canvasSizeSettings }
+      : {})
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  if (typeof CompressionStream === 'undefined') {
+    return SHARE_HASH_PREFIX + PLAIN_MARKER + bytesToBase64Url(json);
+  }
+  const compressed = await transformBytes(json, new CompressionStream('deflate-raw'));
+  return SHARE_HASH_PREFIX + COMPRESSED_MARKER + bytesToBase64Url(compressed);
+}
+
+/**
+ * Checks whether a URL hash carries a shared project
+ */
+export function hasShareHash(hash: string): boolean {
+  return hash.startsWith(SHARE_HASH_PREFIX);
+}
+
+/**
+ * Decodes a URL hash created by encodeShareHash
+ * The result goes through the same validation and migration as project files
+ *
+ * @param hash - location.hash
+ * @returns Validated project (the rendered canvas size is not part of links and is 0×0)
+ * @throws ProjectFileError if the hash is not a valid shared project
+ */
+export async function decodeShareHash(hash: string): Promise<ProjectFile> {
+  if (!hasShareHash(hash)) {
+    throw new ProjectFileError('Link does not contain a project');
+  }
+  const body = hash.slice(SHARE_HASH_PREFIX.length);
+  const marker = body[0];
+
+  let payload: SharePayload;
+  try {
+    let bytes = base64UrlToBytes(body.slice(1));
+    if (marker === COMPRESSED_MARKER) {
+      if (typeof DecompressionStream === 'undefined') {
+        throw new ProjectFileError('This browser cannot open compressed links');
+      }
+      bytes = await transformBytes(bytes, new DecompressionStream('deflate-raw'));
+    } else if (marker !== PLAIN_MARKER) {
+      throw new ProjectFileError('Unknown link encoding');
+    }
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    if (error instanceof ProjectFileError) throw error;
+    throw new ProjectFileError('Link is damaged or incomplete');
+  }
+
+  if (typeof payload !== 'object' || payload === null || !Array.isArray(payload.l)) {
+    throw new ProjectFileError('Link does not contain a project');
+  }
+
+  // Expand into the project file layout; missing config fields fall back to defaults
+  return validateProject({
+    format: PROJECT_FORMAT,
+    version: payload.v,
+    seed: payload.s,
+    canvas: { width: 0, height: 0 },
+    canvasSizeSettings: payload.cs,
+    activeLayerId: payload.a,
+    layers: payload.l.map(layer => (typeof layer === 'object' && layer !== null ? {
+      id: layer.i,
+      name: layer.n,
+      visible: layer.h !== 1,
+      opacity: layer.o,
+      blendMode: layer.b,
+      maskMode: layer.m,
+      maskInvert: layer.mi === 1,
+      config: layer.c,
+      shapeImage: layer.g ?? null
+    } : layer)),
+    bloom: payload.bl,
+    postEffects: payload.pe
+  });
+}
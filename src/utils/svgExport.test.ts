@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { Layer } from '@/types';
+import { DEFAULT_LAYER_CONFIG } from './constants';
+import { createRandom } from './random';
+import { buildSvgDocument } from './svgExport';
+
+const random = createRandom(1);
+const randomSeeds = Array.from({ length: 64 }, () => ({ r1: random(), r2: random(), r3: random() }));
+
+const makeLayer = (name: string, updates: Partial<Layer> = {}): Layer => ({
+  id: name,
+  name,
+  visible: true,
+  opacity: 1,
+  blendMode: 'source-over',
+  maskMode: 'none',
+  maskInvert: false,
+  config: { ...DEFAULT_LAYER_CONFIG, pattern: 'static', glowEffect: false },
+  shapeImage: null,
+  shapeVideo: null,
+  shapePixels: null,
+  shapeData: null,
+  ...updates
+});
+
+const build = (layers: Layer[]) => buildSvgDocument({ width: 120, height: 120, layers, frame: 0, randomSeeds, seed: 1 });
+
+describe('buildSvgDocument', () => {
+  it('leaves out fully transparent layers', () => {
+    const svg = build([makeLayer('shown'), makeLayer('hidden', { opacity: 0 })]);
+    expect(svg).toContain('id="shown"');
+    expect(svg).not.toContain('id="hidden"');
+  });
+
+  it('drops a mask whose target layer is fully transparent', () => {
+    const svg = build([makeLayer('mask', { maskMode: 'alpha' }), makeLayer('hidden', { opacity: 0 })]);
+    expect(svg).not.toContain('<mask');
+    expect(svg).not.toContain('<text');
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * SVG vector export of the symbol grid
+ * Walks the same cells as the canvas renderer and emits <text> elements
+ */
+
+import type { Layer, RandomSeed, GlyphTarget, BlendMode } from '@/types';
+import { calculateGlowBlur } from './colorUtils';
+import { getGlyphFontSize } from './renderPatterns';
+import { renderLayerPattern } from './patternRegistry';
+import { isMaskLayer } from './layerMask';
+
+/**
+ * Parameters for building an SVG document
+ */
+interface BuildSvgParams {
+  /** Output width in pixels */
+  width: number;
+  /** Output height in pixels */
+  height: number;
+  /** Layers in bottom-to-top order */
+  layers: Layer[];
+  /** Frame to export */
+  frame: number;
+  /** Pre-generated random seeds */
+  randomSeeds: RandomSeed[];
+  /** Project seed */
+  seed: number;
+}
+
+/**
+ * Escapes text for use in XML content and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * CSS mix-blend-mode equivalent of a canvas blend mode
+ */
+function toCssBlendMode(mode: BlendMode): string {
+  if (mode === 'source-over') return 'normal';
+  if (mode === 'lighter') return 'plus-lighter';
+  return mode;
+}
+
+/**
+ * Rounds coordinates to keep the file small
+ */
+function round(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Glyph target collecting <text> elements grouped by glow amount,
+ * so each group can share one blur filter
+ */
+function createSvgGlyphTarget(layer: Layer): GlyphTarget & { groups: Map<number, string[]> } {
+  const { config } = layer;
+  const groups = new Map<number, string[]>();
+
+  return {
+    groups,
+    drawGlyph: (symbol, x, y, brightness) => {
+      const blur = config.glowEffect
+        ? calculateGlowBlur(config.glowIntensity, brightness, config.glowRadius)
+        : 0;
+      // Match the canvas path, which quantizes alpha to 8 bits
+      const alpha = Math.floor(brightness * 255) / 255;
+
+      let elements = groups.get(blur);
+      if (!elements) {
+        elements = [];
+        groups.set(blur, elements);
+      }
+      elements.push(
+        `<text x="${round(x)}" y="${round(y)}" fill-opacity="${round(alpha)}">${escapeXml(symbol)}</text>`
+      );
+    }
+  };
+}
+
+/**
+ * Builds an SVG document of the given frame, one <g> per visible layer
+ * Glow is reproduced with Gaussian blur filters (canvas shadowBlur ≈ 2 × stdDeviation),
+ * mask layers with <mask> elements. Fully transparent layers are left out, as on the canvas;
+ * bloom and post effects are raster passes and are not part of the document
+ *
+ * @param params - Frame, layers and canvas size to export
+ * @returns Serialized SVG markup
+ *
+ * @example
+ * const svg = buildSvgDocument({ width: 800, height: 600, layers, frame: 0, randomSeeds, seed });
+ */
+export function buildSvgDocument(params: BuildSvgParams): string {
+  const { width, height, layers, frame, randomSeeds, seed } = params;
+
+  const defs: string[] = [];
+  const groups: string[] = [];
+  const usedIds = new Set<string>();
+  // Mask waiting for the next visible layer, and where its defs start (to drop them unused)
+  let pendingMask: { id: string; defsStart: number } | null = null;
+
+  layers.forEach((layer, layerIndex) => {
+    if (!layer.visible) return;
+
+    // Fully transparent layers contribute nothing and are skipped, like on the canvas; a mask
+    // waiting for them is dropped with them
+    if (layer.opacity === 0 && !isMaskLayer(layer)) {
+      if (pendingMask) defs.length = pendingMask.defsStart;
+      pendingMask = null;
+      return;
+    }
+    const defsStart = defs.length;
+
+    const { config } = layer;
+    const target = createSvgGlyphTarget(layer);
+    renderLayerPattern({
+      target,
+      layer,
+      cols: Math.floor(width / config.cellSize),
+      rows: Math.floor(height / config.cellSize),
+      cellSize: config.cellSize,
+      frame,
+      randomSeeds,
+      seed
+    });
+
+    // Unique, readable group ids become layer names in design tools
+    const baseId = layer.name.trim().replace(/[^A-Za-z0-9_-]+/g, '-') || `layer-${layerIndex + 1}`;
+    let groupId = baseId;
+    for (let n = 2; usedIds.has(groupId); n++) groupId = `${baseId}-${n}`;
+    usedIds.add(groupId);
+
+    const children: string[] = [];
+    Array.from(target.groups.keys()).sort((a, b) => a - b).forEach((blur) => {
+      const elements = target.groups.get(blur)!.join('');
+      if (blur === 0) {
+        children.push(elements);
+        return;
+      }
+      const filterId = `${groupId}-glow-${blur}`;
+      defs.push(
+        `<filter id="${filterId}" x="-50%" y="-50%" width="200%" height="200%">` +
+        `<feGaussianBlur in="SourceGraphic" stdDeviation="${round(blur / 2)}" result="blur"/>` +
+        '<feMerge><feMergeNode in="blur"/><feMergeNode in="SourceGraphic"/></feMerge>' +
+        '</filter>'
+      );
+      children.push(`<g filter="url(#${filterId})">${elements}</g>`);
+    });
+
+    const glyphAttrs =
+      `fill="${escapeXml(config.color)}" font-family="monospace" font-size="${getGlyphFontSize(config.cellSize)}" ` +
+      'text-anchor="middle" dominant-baseline="central"';
+
+    // Mask layers become <mask> elements applied to the next visible layer
+    if (isMaskLayer(layer)) {
+      const maskId = `${groupId}-mask`;
+      const content = `<g ${glyphAttrs}>${children.join('')}</g>`;
+      let maskBody: string;
+      if (!layer.maskInvert) {
+        maskBody = content;
+      } else {
+        // Inverted: white everywhere, darkened where the mask has glyphs
+        const invertId = `${maskId}-invert`;
+        const matrix = layer.maskMode === 'luminance'
+          ? '-1 0 0 0 1 0 -1 0 0 1 0 0 -1 0 1 0 0 0 1 0'
+          : '0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 1 0';
+        defs.push(`<filter id="${invertId}"><feColorMatrix type="matrix" values="${matrix}"/></filter>`);
+        maskBody = `<rect width="100%" height="100%" fill="#fff"/><g filter="url(#${invertId})">${content}</g>`;
+      }
+      const maskType = layer.maskMode === 'alpha' && !layer.maskInvert ? ' mask-type="alpha"' : '';
+      defs.push(
+        `<mask id="${maskId}"${maskType} maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">` +
+        `${maskBody}</mask>`
+      );
+      pendingMask = { id: maskId, defsStart };
+      return;
+    }
+
+    const blendStyle = layer.blendMode === 'source-over'
+      ? ''
+      : ` style="mix-blend-mode:${toCssBlendMode(layer.blendMode)}"`;
+    const maskAttr = pendingMask ? ` mask="url(#${pendingMask.id})"` : '';
+    pendingMask = null;
+    groups.push(
+      `<g id="${escapeXml(groupId)}"${blendStyle}${maskAttr} opacity="${round(layer.opacity)}" ${glyphAttrs}>` +
+      `${children.join('')}</g>`
+    );
+  });
+
+  const background = layers[0]?.config.bgColor || '#0a0e27';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    `<rect width="100%" height="100%" fill="${escapeXml(background)}"/>`,
+    ...groups,
+    '</svg>'
+  ].filter(Boolean).join('\n');
+}
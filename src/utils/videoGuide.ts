@@ -0,0 +1,122 @@
+/**
+ * Live shape guides from video files and cameras
+ * The guide's brightness map is re-sampled from the video's current frame at render time
+ */
+
+import type { Layer } from '@/types';
+import { processShapePixels, SHAPE_PROCESSING_KEYS, type ShapeProcessing } from './shapeProcessing';
+
+/** Longest side of sampled video frames (smaller than stills, as it is redone every frame) */
+const VIDEO_SHAPE_MAX_SIZE = 256;
+
+/** Allowed difference between the video time and the requested time when seeking, in seconds */
+const SEEK_TOLERANCE = 0.001;
+
+/** Last processed frame per video */
+const frameCache = new WeakMap<HTMLVideoElement, { time: number; key: string; shapeData: number[][] }>();
+
+/** Lazily created canvas used to read video frames */
+let captureContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Whether a video element shows a live camera stream (as opposed to a video file)
+ */
+export function isCameraVideo(video: HTMLVideoElement): boolean {
+  return video.srcObject !== null;
+}
+
+/**
+ * Maps an animation frame to a time in a video file, looping at the end
+ *
+ * @param frame - Animation frame
+ * @param animationSpeed - Milliseconds per animation frame
+ * @param duration - Video duration in seconds
+ * @returns Time in seconds
+ */
+export function getVideoFrameTime(frame: number, animationSpeed: number, duration: number): number {
+  if (!Number.isFinite(duration) || duration <= 0) return 0;
+  const time = (frame * animationSpeed) / 1000;
+  return ((time % duration) + duration) % duration;
+}
+
+/**
+ * Seeks a video and resolves once the frame at that time can be read
+ *
+ * @param video - Video file element
+ * @param time - Target time in seconds
+ */
+export function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+  if (Math.abs(video.currentTime - time) <= SEEK_TOLERANCE && !video.seeking) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const done = () => {
+      video.removeEventListener('seeked', done);
+      video.removeEventListener('error', done);
+      resolve();
+    };
+    video.addEventListener('seeked', done);
+    video.addEventListener('error', done);
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Reads the current frame of a video into downscaled pixels
+ *
+ * @param video - Video element
+ * @returns Pixels, or null while no frame is available yet
+ */
+export function captureVideoPixels(video: HTMLVideoElement): ImageData | null {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return null;
+
+  captureContext ??= document.createElement('canvas').getContext('2d', { willReadFrequently: true });
+  if (!captureContext) return null;
+
+  const scale = Math.min(1, VIDEO_SHAPE_MAX_SIZE / video.videoWidth, VIDEO_SHAPE_MAX_SIZE / video.videoHeight);
+  const width = Math.max(1, Math.round(video.videoWidth * scale));
+  const height = Math.max(1, Math.round(video.videoHeight * scale));
+  const canvas = captureContext.canvas;
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  captureContext.drawImage(video, 0, 0, width, height);
+  return captureContext.getImageData(0, 0, width, height);
+}
+
+/**
+ * Brightness map of a video's current frame, run through the layer's preprocessing
+ * Reused while neither the frame nor the settings change
+ *
+ * @param video - Video element
+ * @param settings - Preprocessing settings
+ * @returns Brightness map, or null while no frame is available
+ */
+export function getVideoShapeData(video: HTMLVideoElement, settings: ShapeProcessing): number[][] | null {
+  const key = SHAPE_PROCESSING_KEYS.map(setting => settings[setting]).join();
+  const cached = frameCache.get(video);
+  if (cached && cached.time === video.currentTime && cached.key === key) {
+    return cached.shapeData;
+  }
+
+  const pixels = captureVideoPixels(video);
+  if (!pixels) return cached?.shapeData ?? null;
+
+  const shapeData = processShapePixels(pixels, settings);
+  frameCache.set(video, { time: video.currentTime, key, shapeData });
+  return shapeData;
+}
+
+/**
+ * Returns the layer with its brightness map taken from the current video frame
+ * Layers without a video guide are returned unchanged
+ *
+ * @param layer - Layer to render
+ * @returns Layer whose shapeData matches what its video shows now
+ */
+export function withVideoShapeData(layer: Layer): Layer {
+  if (!layer.shapeVideo) return layer;
+  const shapeData = getVideoShapeData(layer.shapeVideo, layer.config);
+  return shapeData ? { ...layer, shapeData } : layer;
+}
@@ -0,0 +1,361 @@
+/**
+ * WebGL2 rendering backend
+ * Patterns emit glyphs into a per-cell instance buffer (position, symbol index, alpha, glow
+ * blur), which is drawn as instanced quads sampling a glyph texture. Glow is a Gaussian
+ * blur of the glyph computed in the fragment shader
+ */
+
+import type { GlyphTarget, LayerConfig, RenderCanvas } from '@/types';
+import { calculateGlowBlur, parseColor } from './colorUtils';
+import { getGlyphFontSize, getRenderContext } from './renderPatterns';
+
+/**
+ * Glyphs of one layer, collected by a glyph target
+ */
+export interface GlyphBatch extends GlyphTarget {
+  /** Symbols in the order they were first drawn (index = symbol index) */
+  symbols: string[];
+  /** Instance data, INSTANCE_FLOATS per glyph */
+  instances: Float32Array;
+  /** Number of glyphs */
+  count: number;
+}
+
+/**
+ * Draws glyph batches with WebGL2
+ */
+export interface WebGLGlyphRenderer {
+  /** Canvas the batches are drawn on (copy it onto a 2D canvas to composite) */
+  canvas: RenderCanvas;
+  /**
+   * Draws a batch onto a cleared canvas of the given size
+   * @returns False if nothing could be drawn (e.g. the context was lost)
+   */
+  render: (batch: GlyphBatch, layerConfig: LayerConfig, width: number, height: number) => boolean;
+}
+
+/** Floats per instance: x, y, symbol index, alpha, glow blur */
+const INSTANCE_FLOATS = 5;
+
+/** Glow is sampled on a GLOW_TAPS × GLOW_TAPS grid spanning ±3 sigma */
+const GLOW_TAPS = 7;
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_corner;
+in vec2 a_position;
+in float a_symbol;
+in float a_alpha;
+in float a_blur;
+
+uniform vec2 u_resolution;
+uniform float u_slot;
+
+out vec2 v_local;
+flat out float v_symbol;
+flat out float v_alpha;
+flat out float v_blur;
+
+void main() {
+  // A Gaussian shadow of this blur fades out within 1.5 × blur pixels
+  float halfSize = u_slot * 0.5 + ceil(a_blur * 1.5) + 1.0;
+  v_local = a_corner * halfSize;
+  v_symbol = a_symbol;
+  v_alpha = a_alpha;
+  v_blur = a_blur;
+
+  vec2 position = (a_position + v_local) / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(position.x, -position.y, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_local;
+flat in float v_symbol;
+flat in float v_alpha;
+flat in float v_blur;
+
+uniform sampler2D u_glyphs;
+uniform float u_slot;
+uniform float u_columns;
+uniform vec3 u_color;
+
+out vec4 outColor;
+
+// Coverage of the symbol at an offset from its anchor (0 outside its slot)
+float coverage(vec2 offset) {
+  if (abs(offset.x) > u_slot * 0.5 || abs(offset.y) > u_slot * 0.5) return 0.0;
+  vec2 slot = vec2(mod(v_symbol, u_columns), floor(v_symbol / u_columns));
+  vec2 texel = slot * u_slot + u_slot * 0.5 + offset;
+  return texture(u_glyphs, texel / vec2(textureSize(u_glyphs, 0))).a;
+}
+
+void main() {
+  float glyph = coverage(v_local);
+
+  float glow = 0.0;
+  if (v_blur > 0.0) {
+    // Canvas shadows use a Gaussian with sigma = blur / 2
+    float sigma = v_blur * 0.5;
+    float spacing = 6.0 * sigma / float(${GLOW_TAPS - 1});
+    float total = 0.0;
+    for (int i = 0; i < ${GLOW_TAPS}; i++) {
+      for (int j = 0; j < ${GLOW_TAPS}; j++) {
+        vec2 offset = (vec2(float(i), float(j)) - float(${(GLOW_TAPS - 1) / 2})) * spacing;
+        float weight = exp(-dot(offset, offset) / (2.0 * sigma * sigma));
+        glow += weight * coverage(v_local + offset);
+        total += weight;
+      }
+    }
+    glow /= total;
+  }
+
+  // Glyph drawn over its own glow, both at the glyph's alpha (as fillText with shadowBlur)
+  float alpha = v_alpha * glyph + v_alpha * glow * (1.0 - v_alpha * glyph);
+  outColor = vec4(u_color * alpha, alpha);
+}
+`;
+
+/**
+ * Gets a WebGL2 context of a canvas element or an OffscreenCanvas
+ */
+function getWebGLContext(canvas: RenderCanvas): WebGL2RenderingContext | null {
+  const options: WebGLContextAttributes = { premultipliedAlpha: true, antialias: false };
+  if (typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas) {
+    return canvas.getContext('webgl2', options);
+  }
+  return (canvas as HTMLCanvasElement).getContext('webgl2', options);
+}
+
+/** Whether WebGL2 is available on this thread (checked once) */
+let webgl2Support: boolean | undefined;
+
+/**
+ * Whether this browser can use the WebGL2 backend
+ * When it cannot, the WebGL2 backend falls back to canvas text
+ */
+export function supportsWebGL2(): boolean {
+  if (webgl2Support === undefined) {
+    const canvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(1, 1)
+      : typeof document !== 'undefined' ? document.createElement('canvas') : null;
+    webgl2Support = canvas !== null && getWebGLContext(canvas) !== null;
+  }
+  return webgl2Support;
+}
+
+/**
+ * Compiles and links the glyph program
+ */
+function createProgram(gl: WebGL2RenderingContext): WebGLProgram | null {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) return null;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    return gl.getShaderParameter(shader, gl.COMPILE_STATUS) ? shader : null;
+  };
+
+  const vertexShader = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragmentShader = compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!vertexShader || !fragmentShader || !program) return null;
+
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+  return gl.getProgramParameter(program, gl.LINK_STATUS) ? program : null;
+}
+
+/**
+ * Creates a glyph target that collects glyphs into an instance buffer
+ * Uses the same alpha and glow math as the canvas text target
+ *
+ * @param layerConfig - Layer configuration providing glow settings
+ * @returns Batch to pass to a WebGLGlyphRenderer
+ *
+ * @example
+ * const batch = createGlyphBatch(layer.config);
+ * renderLayerPattern({ target: batch, layer, ... });
+ * renderer.render(batch, layer.config, width, height);
+ */
+export function createGlyphBatch(layerConfig: LayerConfig): GlyphBatch {
+  const symbolIndices = new Map<string, number>();
+
+  const batch: GlyphBatch = {
+    symbols: [],
+    instances: new Float32Array(1024 * INSTANCE_FLOATS),
+    count: 0,
+    drawGlyph: (symbol, x, y, brightness) => {
+      let symbolIndex = symbolIndices.get(symbol);
+      if (symbolIndex === undefined) {
+        symbolIndex = batch.symbols.length;
+        symbolIndices.set(symbol, symbolIndex);
+        batch.symbols.push(symbol);
+      }
+
+      if ((batch.count + 1) * INSTANCE_FLOATS > batch.instances.length) {
+        const grown = new Float32Array(batch.instances.length * 2);
+        grown.set(batch.instances);
+        batch.instances = grown;
+      }
+
+      const offset = batch.count * INSTANCE_FLOATS;
+      batch.instances[offset] = x;
+      batch.instances[offset + 1] = y;
+      batch.instances[offset + 2] = symbolIndex;
+      // Same 8-bit alpha as the color suffix the fillText target uses
+      batch.instances[offset + 3] = Math.floor(Math.min(1, brightness) * 255) / 255;
+      batch.instances[offset + 4] = layerConfig.glowEffect
+        ? calculateGlowBlur(layerConfig.glowIntensity, brightness, layerConfig.glowRadius)
+        : 0;
+      batch.count++;
+    }
+  };
+  return batch;
+}
+
+/**
+ * Creates a WebGL2 glyph renderer on a canvas
+ *
+ * @param canvas - Canvas to draw on (a canvas element or an OffscreenCanvas without a context yet)
+ * @param createCanvas - Creates the 2D canvas the glyph texture is rasterized on
+ * @returns Renderer, or null if WebGL2 is unavailable
+ *
+ * @example
+ * const renderer = createWebGLGlyphRenderer(new OffscreenCanvas(1, 1), () => new OffscreenCanvas(1, 1));
+ */
+export function createWebGLGlyphRenderer(
+  canvas: RenderCanvas,
+  createCanvas: () => RenderCanvas
+): WebGLGlyphRenderer | null {
+  const gl = getWebGLContext(canvas);
+  const program = gl && createProgram(gl);
+  if (!gl || !program) return null;
+
+  const vertexArray = gl.createVertexArray();
+  const cornerBuffer = gl.createBuffer();
+  const instanceBuffer = gl.createBuffer();
+  const texture = gl.createTexture();
+  const glyphCanvas = createCanvas();
+  const glyphContext = getRenderContext(glyphCanvas);
+  if (!vertexArray || !cornerBuffer || !instanceBuffer || !texture || !glyphContext) return null;
+
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+  const uniforms = {
+    resolution: uniform('u_resolution'),
+    slot: uniform('u_slot'),
+    columns: uniform('u_columns'),
+    color: uniform('u_color'),
+    glyphs: uniform('u_glyphs')
+  };
+
+  gl.bindVertexArray(vertexArray);
+
+  // Unit quad shared by all instances
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  const cornerLocation = gl.getAttribLocation(program, 'a_corner');
+  gl.enableVertexAttribArray(cornerLocation);
+  gl.vertexAttribPointer(cornerLocation, 2, gl.FLOAT, false, 0, 0);
+
+  // Per-instance attributes
+  gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+  const stride = INSTANCE_FLOATS * 4;
+  const attributes: [string, number, number][] = [
+    ['a_position', 2, 0],
+    ['a_symbol', 1, 2],
+    ['a_alpha', 1, 3],
+    ['a_blur', 1, 4]
+  ];
+  attributes.forEach(([name, size, offset]) => {
+    const location = gl.getAttribLocation(program, name);
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4);
+    gl.vertexAttribDivisor(location, 1);
+  });
+  gl.bindVertexArray(null);
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+  // Key of the symbols and font size currently in the texture
+  let textureKey = '';
+
+  /**
+   * Rasterizes the symbols into square slots, white on transparent, anchored like fillText
+   */
+  const updateTexture = (symbols: string[], fontSize: number, slot: number, columns: number) => {
+    const key = `${fontSize}:${symbols.join('')}`;
+    if (key === textureKey) return;
+    textureKey = key;
+
+    const rows = Math.ceil(symbols.length / columns);
+    glyphCanvas.width = columns * slot;
+    glyphCanvas.height = Math.max(1, rows) * slot;
+    glyphContext.clearRect(0, 0, glyphCanvas.width, glyphCanvas.height);
+    glyphContext.font = `${fontSize}px monospace`;
+    glyphContext.textAlign = 'center';
+    glyphContext.textBaseline = 'middle';
+    glyphContext.fillStyle = '#ffffff';
+    symbols.forEach((symbol, i) => {
+      const x = (i % columns) * slot;
+      const y = Math.floor(i / columns) * slot;
+      glyphContext.save();
+      glyphContext.beginPath();
+      glyphContext.rect(x, y, slot, slot);
+      glyphContext.clip();
+      glyphContext.fillText(symbol, x + slot / 2, y + slot / 2);
+      glyphContext.restore();
+    });
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, glyphCanvas);
+  };
+
+  const render = (batch: GlyphBatch, layerConfig: LayerConfig, width: number, height: number): boolean => {
+    if (gl.isContextLost()) return false;
+
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    gl.viewport(0, 0, width, height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    if (batch.count === 0) return true;
+
+    // Even slots keep glyph anchors on texel corners, so whole-pixel cells sample texels exactly
+    const fontSize = getGlyphFontSize(layerConfig.cellSize);
+    const slot = 2 * Math.ceil(fontSize * 0.75) + 2;
+    const columns = Math.max(1, Math.ceil(Math.sqrt(batch.symbols.length)));
+    updateTexture(batch.symbols, fontSize, slot, columns);
+
+    gl.useProgram(program);
+    gl.bindVertexArray(vertexArray);
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, batch.instances.subarray(0, batch.count * INSTANCE_FLOATS), gl.DYNAMIC_DRAW);
+
+    const [r, g, b] = parseColor(layerConfig.color);
+    gl.uniform2f(uniforms.resolution, width, height);
+    gl.uniform1f(uniforms.slot, slot);
+    gl.uniform1f(uniforms.columns, columns);
+    gl.uniform3f(uniforms.color, r / 255, g / 255, b / 255);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(uniforms.glyphs, 0);
+
+    // Premultiplied source-over, matching how glyphs overlap on a 2D canvas
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, batch.count);
+    gl.bindVertexArray(null);
+    return true;
+  };
+
+  return { canvas, render };
+}
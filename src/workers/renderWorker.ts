@@ -0,0 +1,82 @@
+/**
+ * Render worker
+ * Draws frames onto the display canvas (transferred as an OffscreenCanvas) off the main thread
+ * Protocol: see RenderWorkerRequest / RenderWorkerResponse in '@/types'
+ */
+
+import type { Layer, RandomSeed, RenderWorkerLayer, RenderWorkerRequest, RenderWorkerResponse } from '@/types';
+import { createCompositor } from '@/utils/compositor';
+
+/**
+ * The parts of the worker global scope used here (the project compiles against the DOM lib)
+ */
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<RenderWorkerRequest>) => void) | null;
+  postMessage: (message: RenderWorkerResponse) => void;
+};
+
+const compositor = createCompositor(() => new OffscreenCanvas(1, 1), { playback: true });
+
+let canvas: OffscreenCanvas | null = null;
+let randomSeeds: RandomSeed[] = [];
+/** Brightness maps by id, kept in sync with the main thread */
+const shapes = new Map<number, number[][]>();
+
+/**
+ * Rebuilds a layer from its worker representation
+ */
+function toLayer(layer: RenderWorkerLayer): Layer {
+  const { shapeDataId, ...rest } = layer;
+  return {
+    ...rest,
+    shapeImage: null,
+    shapeVideo: null,
+    shapePixels: null,
+    shapeData: shapeDataId === null ? null : shapes.get(shapeDataId) ?? null
+  };
+}
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init':
+      canvas = message.canvas;
+      break;
+    case 'seeds':
+      randomSeeds = message.randomSeeds;
+      break;
+    case 'render': {
+      message.removeShapes.forEach(id => shapes.delete(id));
+      message.addShapes.forEach(([id, shapeData]) => shapes.set(id, shapeData));
+
+      // A frame that fails is reported and the next one is tried; throwing would end the worker
+      let error: string | null = null;
+      try {
+        if (canvas) {
+          if (canvas.width !== message.width || canvas.height !== message.height) {
+            canvas.width = message.width;
+            canvas.height = message.height;
+          }
+          compositor.renderFrame(canvas, {
+            width: message.width,
+            height: message.height,
+            layers: message.layers.map(toLayer),
+            randomSeeds,
+            seed: message.seed,
+            backend: message.backend,
+            bloom: message.bloom,
+            postEffects: message.postEffects
+          }, message.frame);
+        }
+      } catch (renderError) {
+        error = renderError instanceof Error ? renderError.message : String(renderError);
+      }
+      // Always acknowledge, or the main thread would stop sending frames
+      scope.postMessage({ type: 'rendered', frame: message.frame, error });
+      break;
+    }
+  }
+};
+
+// Loaded: the main thread transfers the canvas in reply
+scope.postMessage({ type: 'ready' });